@@ -2,6 +2,7 @@ const autocannon = require('autocannon');
 const { spawn } = require('child_process');
 const fs = require('fs');
 const path = require('path');
+const { pathToFileURL } = require('url');
 
 // Configuration
 const TEST_DURATION = 10; // seconds
@@ -10,53 +11,149 @@ const SERVER_URL = 'http://localhost:3000';
 const ROUTES = [
   '/',
   '/json',
-  '/users/123'
+  '/users/123',
+  '/static/style.css',
+  '/cached/style.css'
 ];
 const CONCURRENCY_LEVELS = [1, 10, 50, 100, 200];
 
+// Router benchmark configuration
+const ROUTER_ONLY = process.argv.includes('--router-only');
+const ROUTER_BENCH_ROUTES = 500; // number of route groups registered
+const ROUTER_BENCH_DURATION = 1000; // ms spent timing each matcher per sample path
+
 // Create results directory if it doesn't exist
 const resultsDir = path.join(__dirname, '../results');
 if (!fs.existsSync(resultsDir)) {
   fs.mkdirSync(resultsDir);
 }
 
+let server;
+let routerResults = null;
+
 // Start the server
-console.log('🚀 Starting server...');
-const server = spawn('node', ['dist/examples/stress-test-server.js', '--production']);
+function startServer() {
+  console.log('🚀 Starting server...');
+  server = spawn('node', ['dist/examples/stress-test-server.js', '--production']);
 
-let serverReady = false;
+  let serverReady = false;
 
-server.stdout.on('data', (data) => {
-  const output = data.toString();
-  console.log(`Server: ${output.trim()}`);
-  
-  // Once server confirms it's running, start the stress test
-  if (output.includes('Server is running') && !serverReady) {
-    serverReady = true;
-    console.log('Server is ready. Waiting a moment before starting tests...');
+  server.stdout.on('data', (data) => {
+    const output = data.toString();
+    console.log(`Server: ${output.trim()}`);
     
-    // Give the server a moment to stabilize
-    setTimeout(() => {
-      runStressTests();
-    }, SERVER_STARTUP_WAIT);
-  }
-});
+    // Once server confirms it's running, start the stress test
+    if (output.includes('Server is running') && !serverReady) {
+      serverReady = true;
+      console.log('Server is ready. Waiting a moment before starting tests...');
+      
+      // Give the server a moment to stabilize
+      setTimeout(() => {
+        runStressTests();
+      }, SERVER_STARTUP_WAIT);
+    }
+  });
 
-server.stderr.on('data', (data) => {
-  console.error(`Server error: ${data.toString().trim()}`);
-});
+  server.stderr.on('data', (data) => {
+    console.error(`Server error: ${data.toString().trim()}`);
+  });
 
-server.on('close', (code) => {
-  console.log(`Server process exited with code ${code}`);
-});
+  server.on('close', (code) => {
+    console.log(`Server process exited with code ${code}`);
+  });
+}
 
 // Handle cleanup
 process.on('SIGINT', () => {
   console.log('Stopping test...');
-  server.kill();
+  if (server) server.kill();
   process.exit(0);
 });
 
+/**
+ * The matcher used before the route tree: a linear scan that compiles
+ * a RegExp for every route on every request
+ */
+function legacyMatch(routes, method, urlPath) {
+  const toRegex = (routePath) => new RegExp(`^${routePath
+    .replace(/\/+$/, '')
+    .replace(/:(\w+)/g, '([^/]+)')
+    .replace(/\//g, '\\/')}$`);
+
+  const route = routes.find(r => {
+    if (r.method !== method) return false;
+    if (r.path === '/') return urlPath === '/' || urlPath === '';
+    return toRegex(r.path).test(urlPath);
+  });
+
+  if (!route) return null;
+
+  const params = {};
+  const paramNames = (route.path.match(/:\w+/g) || []).map(param => param.substring(1));
+  const matches = urlPath.match(toRegex(route.path));
+  if (matches) {
+    matches.slice(1).forEach((value, index) => {
+      params[paramNames[index]] = value;
+    });
+  }
+
+  return { value: route, params };
+}
+
+// Time a matcher for a fixed duration, returning lookups per second
+function timeMatcher(match, samplePath) {
+  const start = process.hrtime.bigint();
+  const deadline = start + BigInt(ROUTER_BENCH_DURATION) * 1000000n;
+  let iterations = 0;
+  let now = start;
+
+  while (now < deadline) {
+    for (let i = 0; i < 100; i++) {
+      match(samplePath);
+    }
+    iterations += 100;
+    now = process.hrtime.bigint();
+  }
+
+  return iterations / (Number(now - start) / 1e9);
+}
+
+// Compare the route tree against the legacy linear matcher
+async function runRouterBenchmark() {
+  console.log(`\n🧭 Benchmarking route matching with ${ROUTER_BENCH_ROUTES * 3} routes...`);
+
+  const { RouteTree } = await import(pathToFileURL(path.join(__dirname, '../dist/RouteTree.js')).href);
+
+  const routes = [];
+  for (let i = 0; i < ROUTER_BENCH_ROUTES; i++) {
+    routes.push({ method: 'GET', path: `/static${i}` });
+    routes.push({ method: 'GET', path: `/resource${i}/:id` });
+    routes.push({ method: 'GET', path: `/resource${i}/:id/items/:itemId` });
+  }
+
+  const tree = new RouteTree();
+  routes.forEach(route => tree.insert(route.method, route.path, route));
+
+  const last = ROUTER_BENCH_ROUTES - 1;
+  const samples = {
+    'first static': '/static0',
+    'last static': `/static${last}`,
+    'last param': `/resource${last}/123/items/456`,
+    'not found': '/missing/route'
+  };
+
+  const results = {};
+  for (const [label, samplePath] of Object.entries(samples)) {
+    const legacy = timeMatcher(p => legacyMatch(routes, 'GET', p), samplePath);
+    const radix = timeMatcher(p => tree.lookup('GET', p), samplePath);
+    results[label] = { path: samplePath, legacyOpsPerSec: legacy, treeOpsPerSec: radix, speedup: radix / legacy };
+
+    console.log(`  ${label.padEnd(12)} legacy: ${legacy.toFixed(0).padStart(10)} ops/sec | tree: ${radix.toFixed(0).padStart(10)} ops/sec | ${(radix / legacy).toFixed(1)}x`);
+  }
+
+  return results;
+}
+
 // Function to run a single test with specific concurrency
 function runSingleTest(route, concurrency) {
   return new Promise((resolve, reject) => {
@@ -118,6 +215,10 @@ async function runStressTests() {
     }
   }
   
+  if (routerResults) {
+    allResults.routerBenchmark = routerResults;
+  }
+  
   // Save all results to a file
   const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
   const resultsFile = path.join(resultsDir, `stress-test-results-${timestamp}.json`);
@@ -166,6 +267,35 @@ function generateReport(results, timestamp) {
     </div>
 `;
 
+  // Router benchmark table
+  if (results.routerBenchmark) {
+    html += `
+    <h2>Route Matching (${ROUTER_BENCH_ROUTES * 3} routes)</h2>
+    <table>
+      <tr>
+        <th>Case</th>
+        <th>Path</th>
+        <th>Legacy (ops/sec)</th>
+        <th>Route tree (ops/sec)</th>
+        <th>Speedup</th>
+      </tr>
+`;
+
+    for (const [label, data] of Object.entries(results.routerBenchmark)) {
+      html += `
+      <tr>
+        <td>${label}</td>
+        <td>${data.path}</td>
+        <td>${data.legacyOpsPerSec.toFixed(0)}</td>
+        <td>${data.treeOpsPerSec.toFixed(0)}</td>
+        <td>${data.speedup.toFixed(1)}x</td>
+      </tr>`;
+    }
+
+    html += `
+    </table>`;
+  }
+
   // Generate a table for each route
   for (const route of ROUTES) {
     html += `
@@ -210,3 +340,19 @@ function generateReport(results, timestamp) {
   console.log(`\n📊 HTML report generated: ${reportFile}`);
 }
 
+// Benchmark the route matcher first, then run the HTTP stress tests
+runRouterBenchmark()
+  .then((results) => {
+    routerResults = results;
+    if (ROUTER_ONLY) {
+      process.exit(0);
+    }
+    startServer();
+  })
+  .catch((err) => {
+    console.error('Router benchmark failed:', err);
+    if (ROUTER_ONLY) {
+      process.exit(1);
+    }
+    startServer();
+  });
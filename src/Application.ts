@@ -1,7 +1,27 @@
 import * as http from 'http';
 import { IncomingMessage, ServerResponse } from 'http';
 import { URL } from 'url';
+import { randomUUID } from 'crypto';
 import { Router } from './Router';
+import { RouteTree } from './RouteTree';
+import { invokeHandler, isErrorHandler } from './dispatch';
+import {
+  getErrorStatus,
+  getErrorMessage,
+  setErrorHeaders,
+  sendProblem,
+  toProblemDetails,
+  ProblemDetailsOptions
+} from './errors';
+import { buildErrorReport, renderErrorPage, ErrorContext } from './errorPage';
+import { ETagSetting } from './etag';
+import { requestMethods, requestProperties } from './request';
+import { responseMethods, FormatHandlers, ResponseBody } from './response';
+import { SendFileOptions } from './send';
+import { CookieOptions } from './cookies';
+import type { Session } from './session';
+import type { UploadedFile } from './multipart';
+import { Logger, JsonLogger, argsToFields, childLogger } from './logging';
 
 // Define types for the framework
 
@@ -18,6 +38,31 @@ export interface DebugConfig {
   error: boolean;
 }
 
+/**
+ * Application-level settings, changed with `app.set()`
+ */
+export interface ApplicationSettings {
+  /**
+   * Reply to errors that reach the default error handler with RFC 7807
+   * `application/problem+json` bodies. Pass options to customize problem types.
+   */
+  problemDetails: boolean | ProblemDetailsOptions;
+
+  /**
+   * ETag generation for `res.send()` and `res.json()`: `'weak'` (the default,
+   * same as `true`), `'strong'`, `false` to disable, or a custom function.
+   * Requests whose If-None-Match/If-Modified-Since match get a 304 instead of the body.
+   */
+  etag: ETagSetting;
+
+  /**
+   * Where the application logs, such as a `JsonLogger` with its own level,
+   * transports and redaction, or any object with the `Logger` methods
+   * (default `Application.defaultLogger`)
+   */
+  logger?: Logger;
+}
+
 // Type guard to check if a string is a valid debug category
 export function isValidCategory(category: string): category is DebugCategory {
   return ['request', 'route', 'handler', 'response', 'error'].includes(category);
@@ -27,9 +72,102 @@ export interface Request extends IncomingMessage {
   query: Record<string, string>;
   body: any;
   path: string;
+
+  /** The application handling the request */
+  app: Application;
+
+  /** The response for this request */
+  res: Response;
+
+  /** Identifies the request in logs: its X-Request-Id header, or a generated UUID */
+  id: string;
+
+  /** The application's logger, bound to the request's id, method, URL and matched route */
+  log: Logger;
+
+  /** Cookies sent by the client, filled in by the cookie parser middleware */
+  cookies: Record<string, string>;
+
+  /** Signed cookies whose signature was verified; false when it didn't match */
+  signedCookies: Record<string, string | false>;
+
+  /** The secret used to sign cookies, set by the cookie parser middleware */
+  secret?: string;
+
+  /** The client's session, set by the session middleware */
+  session: Session;
+
+  /** The unparsed request body, kept by the body parsers with `rawBody: true` */
+  rawBody?: Buffer;
+
+  /** Set by the first body parser that reads the body; later parsers pass the request on */
+  _body?: boolean;
+
+  /** Files uploaded in a multipart/form-data body, set by the multipart parser */
+  files: UploadedFile[];
+
+  /**
+   * Whether the client's cached copy is current, based on If-None-Match and
+   * If-Modified-Since compared with the response's ETag and Last-Modified
+   */
+  readonly fresh: boolean;
+
+  /** Inverse of `fresh` */
+  readonly stale: boolean;
+
+  /**
+   * Get the response types the client accepts, in order of preference
+   */
+  accepts(): string[];
+  /**
+   * Get the best of the given types for the client, based on the Accept header
+   * @param types MIME types or shorthands such as `json` and `html`
+   * @returns The best type as passed in, or false if none is acceptable
+   */
+  accepts(...types: Array<string | string[]>): string | false;
+
+  /**
+   * Get the encodings the client accepts, in order of preference
+   */
+  acceptsEncodings(): string[];
+  /**
+   * Get the best of the given encodings, based on the Accept-Encoding header
+   */
+  acceptsEncodings(...encodings: Array<string | string[]>): string | false;
+
+  /**
+   * Get the languages the client accepts, in order of preference
+   */
+  acceptsLanguages(): string[];
+  /**
+   * Get the best of the given languages, based on the Accept-Language header
+   */
+  acceptsLanguages(...languages: Array<string | string[]>): string | false;
+
+  /**
+   * Get the charsets the client accepts, in order of preference
+   */
+  acceptsCharsets(): string[];
+  /**
+   * Get the best of the given charsets, based on the Accept-Charset header
+   */
+  acceptsCharsets(...charsets: Array<string | string[]>): string | false;
+
+  /**
+   * Check whether the request's Content-Type matches one of the given types
+   * @param types MIME types, shorthands, wildcards (`text/*`) or suffixes (`+json`)
+   * @returns The matching type, false if none matches, or null if the request has no body
+   */
+  is(...types: Array<string | string[]>): string | false | null;
 }
 
 export interface Response extends ServerResponse {
+  /** The application handling the request */
+  app: Application;
+
+  /** Push out the data compressed so far, set by the compression middleware */
+  flush?(): void;
+
   /**
    * Sets the HTTP status code for the response
    * @param code - The HTTP status code
@@ -45,27 +183,132 @@ export interface Response extends ServerResponse {
   json(data: any): Response;
   
   /**
-   * Sends a string response with Content-Type text/html
-   * @param body - The string body to send
+   * Sends a response body: strings default to Content-Type text/html, Buffers and
+   * typed arrays to application/octet-stream, other values are sent as JSON.
+   * Sets Content-Length and omits the body for HEAD requests and 204/304 responses.
+   * @param body - The body to send
+   * @returns The response object for chaining
+   */
+  send(body?: ResponseBody): Response;
+
+  /**
+   * Respond in the format preferred by the client, with `Vary: Accept`.
+   * Replies 406 Not Acceptable when no format matches and there is no `default` handler.
+   * @param handlers Handlers keyed by MIME type or shorthand, plus an optional `default`
+   * @returns The result of the chosen handler
+   */
+  format(handlers: FormatHandlers): any;
+
+  /**
+   * Sets the Location header, percent-encoding the URL where needed
+   * @param url - The URL, or 'back' for the Referer
+   * @returns The response object for chaining
+   */
+  location(url: string): Response;
+
+  /**
+   * Redirects to a URL with a 302 Found
+   * @param url - The URL, or 'back' for the Referer
+   */
+  redirect(url: string): void;
+  /**
+   * Redirects to a URL with the given status code
+   * @param status - The redirect status code, e.g. 301
+   * @param url - The URL, or 'back' for the Referer
+   */
+  redirect(status: number, url: string): void;
+
+  /**
+   * Sets a cookie, appending a Set-Cookie header
+   * @param name - The cookie name
+   * @param value - The cookie value
+   * @param options - Cookie attributes; maxAge is in milliseconds
+   * @returns The response object for chaining
+   */
+  cookie(name: string, value: string, options?: CookieOptions): Response;
+
+  /**
+   * Clears a cookie by expiring it
+   * @param name - The cookie name
+   * @param options - The path and domain the cookie was set with
    * @returns The response object for chaining
    */
-  send(body: string): Response;
+  clearCookie(name: string, options?: CookieOptions): Response;
+
+  /**
+   * Sets Content-Disposition to attachment, and Content-Type from the filename
+   * @param filename - The file name suggested to the user
+   * @returns The response object for chaining
+   */
+  attachment(filename?: string): Response;
+
+  /**
+   * Streams a file as the response. Return or await the promise so errors
+   * (404 for missing files, 403 for paths outside root) reach the error handlers.
+   * @param path - Absolute path, or a path relative to options.root
+   * @param options - Root directory, extra headers and max-age
+   */
+  sendFile(path: string, options?: SendFileOptions): Promise<void>;
+
+  /**
+   * Sends a file as a download (Content-Disposition: attachment)
+   * @param path - Absolute path, or a path relative to options.root
+   * @param filename - The file name suggested to the user
+   * @param options - The same options as sendFile
+   */
+  download(path: string, filename?: string, options?: SendFileOptions): Promise<void>;
 }
 
-export type NextFunction = (err?: any) => void;
-export type Middleware = (req: Request, res: Response, next: NextFunction) => void;
-export type RouteHandler = (req: Request, res: Response, next: NextFunction) => void;
+/**
+ * Continues the middleware chain, or jumps to error handling when called with an error.
+ * The returned promise resolves once the downstream handlers have finished,
+ * so middleware can `await next()` to run code after them.
+ */
+export type NextFunction = (err?: any) => Promise<void>;
+export type Middleware = (req: Request, res: Response, next: NextFunction) => void | Promise<void>;
+export type RouteHandler = (req: Request, res: Response, next: NextFunction) => void | Promise<void>;
 export type RequestHandler = RouteHandler; // Alias for RouteHandler for compatibility
 
+/**
+ * Error handling middleware, recognized by its four parameters.
+ * It only runs after `next(err)` has been called.
+ */
+export type ErrorHandlerMiddleware = (err: any, req: Request, res: Response, next: NextFunction) => void | Promise<void>;
+
 export interface Route {
   method: string;
   path: string;
   handlers: RouteHandler[];
 }
 
+/**
+ * Middleware or error handler registered with `app.use()`
+ */
+interface Layer {
+  handler: Middleware | ErrorHandlerMiddleware;
+  isErrorHandler: boolean;
+  /** Number of routes registered before this one, to tell whose errors an error handler sees */
+  routesBefore: number;
+}
+
+/**
+ * A handler in the chain built for a request
+ */
+interface ChainEntry {
+  handler: Middleware | RouteHandler | ErrorHandlerMiddleware;
+  type: 'middleware' | 'route handler' | 'error handler';
+  routesBefore?: number;
+}
+
 export class Application {
-  private middlewares: Middleware[] = [];
+  private layers: Layer[] = [];
   private routes: Route[] = [];
+  private routeIndexes = new Map<Route, number>();
+  private routeTree = new RouteTree<Route>();
+  private settings: ApplicationSettings = {
+    problemDetails: false,
+    etag: 'weak'
+  };
   private notFoundHandler: RouteHandler = (req, res) => {
     res.status(404).send('Not Found');
   };
@@ -81,24 +324,31 @@ export class Application {
   };
 
   /**
-   * Logger utility for consistent and configurable logging
+   * Logger of applications without a `logger` setting, and of the framework's
+   * debug output. Writes JSON lines to stdout, including debug records outside
+   * production.
+   */
+  public static defaultLogger: Logger = new JsonLogger({ level: Application.isProduction() ? 'info' : 'debug' });
+
+  /**
+   * Console-style logging to `Application.defaultLogger`, used by the framework's
+   * debug output. Extra arguments become fields of the record.
    */
   public static logger = {
     debug: (category: DebugCategory, message: string, ...args: any[]): void => {
       // Check NODE_ENV at runtime to allow for environment changes
-      const isProduction = process.env.NODE_ENV === 'production';
-      if (!isProduction && Application.debugConfig.enabled && Application.debugConfig[category]) {
-        console.log(`[${category.toUpperCase()}] ${message}`, ...args);
+      if (!Application.isProduction() && Application.debugConfig.enabled && Application.debugConfig[category]) {
+        Application.defaultLogger.debug(message, argsToFields(args, { category }));
       }
     },
     info: (message: string, ...args: any[]): void => {
-      console.log(`[INFO] ${message}`, ...args);
+      Application.defaultLogger.info(message, argsToFields(args));
     },
     warn: (message: string, ...args: any[]): void => {
-      console.warn(`[WARN] ${message}`, ...args);
+      Application.defaultLogger.warn(message, argsToFields(args));
     },
     error: (message: string, ...args: any[]): void => {
-      console.error(`[ERROR] ${message}`, ...args);
+      Application.defaultLogger.error(message, argsToFields(args));
     }
   };
 
@@ -117,6 +367,13 @@ export class Application {
     process.env.NODE_ENV = 'production';
     Application.debugConfig.enabled = false;
   }
+
+  /**
+   * Check whether the application runs in production mode
+   */
+  public static isProduction(): boolean {
+    return process.env.NODE_ENV === 'production';
+  }
   /**
   /**
    * Configure specific debug categories
@@ -167,10 +424,45 @@ export class Application {
     Application.debugConfig[category] = enabled;
   }
   /**
-   * Register middleware to be executed for every request
+   * Change an application setting
+   * @param name The setting to change
+   * @param value The new value
    */
-  public use(middleware: Middleware): Application {
-    this.middlewares.push(middleware);
+  public set<K extends keyof ApplicationSettings>(name: K, value: ApplicationSettings[K]): Application {
+    this.settings[name] = value;
+    return this;
+  }
+
+  /**
+   * Get the current value of an application setting
+   * @param name The setting to read
+   */
+  public getSetting<K extends keyof ApplicationSettings>(name: K): ApplicationSettings[K] {
+    return this.settings[name];
+  }
+
+  /**
+   * The application's logger: the `logger` setting, or `Application.defaultLogger`
+   */
+  public get logger(): Logger {
+    return this.settings.logger || Application.defaultLogger;
+  }
+
+  /**
+   * Register middleware to be executed for every request.
+   * Functions taking four arguments `(err, req, res, next)` are registered as
+   * error handlers. As in Express, they only run after `next(err)` and only
+   * see errors from middleware and routes registered before them; calling
+   * `next()` from one goes on to the following regular middleware.
+   */
+  public use(middleware: Middleware): Application;
+  public use(middleware: ErrorHandlerMiddleware): Application;
+  public use(middleware: Middleware | ErrorHandlerMiddleware): Application {
+    this.layers.push({
+      handler: middleware,
+      isErrorHandler: isErrorHandler<ErrorHandlerMiddleware>(middleware),
+      routesBefore: this.routes.length
+    });
     return this;
   }
 
@@ -178,7 +470,7 @@ export class Application {
    * Register a GET route handler
    */
   public get(path: string, ...handlers: RouteHandler[]): Application {
-    this.routes.push({ method: 'GET', path, handlers });
+    this.addRoute('GET', path, handlers);
     return this;
   }
 
@@ -186,7 +478,7 @@ export class Application {
    * Register a POST route handler
    */
   public post(path: string, ...handlers: RouteHandler[]): Application {
-    this.routes.push({ method: 'POST', path, handlers });
+    this.addRoute('POST', path, handlers);
     return this;
   }
 
@@ -194,7 +486,7 @@ export class Application {
    * Register a PUT route handler
    */
   public put(path: string, ...handlers: RouteHandler[]): Application {
-    this.routes.push({ method: 'PUT', path, handlers });
+    this.addRoute('PUT', path, handlers);
     return this;
   }
 
@@ -202,7 +494,7 @@ export class Application {
    * Register a DELETE route handler
    */
   public delete(path: string, ...handlers: RouteHandler[]): Application {
-    this.routes.push({ method: 'DELETE', path, handlers });
+    this.addRoute('DELETE', path, handlers);
     return this;
   }
 
@@ -210,10 +502,33 @@ export class Application {
    * Register a PATCH route handler
    */
   public patch(path: string, ...handlers: RouteHandler[]): Application {
-    this.routes.push({ method: 'PATCH', path, handlers });
+    this.addRoute('PATCH', path, handlers);
     return this;
   }
 
+  /**
+   * Register an OPTIONS route handler, e.g. to answer CORS preflight requests for a route
+   */
+  public options(path: string, ...handlers: RouteHandler[]): Application {
+    this.addRoute('OPTIONS', path, handlers);
+    return this;
+  }
+
+  /**
+   * Add a route and compile it into the route tree
+   */
+  private addRoute(method: string, path: string, handlers: RouteHandler[]): void {
+    const route: Route = { method, path, handlers };
+    
+    if (this.routeTree.insert(method, path, route)) {
+      this.routeIndexes.set(route, this.routes.length);
+      this.routes.push(route);
+      Application.logger.debug('route', `Registered route: ${method} ${path}`);
+    } else {
+      Application.logger.warn(`Route ${method} ${path} is already registered, ignoring duplicate`);
+    }
+  }
+
   /**
    * Mount a Router instance at the specified path
    * @param path The base path to mount the router on
@@ -233,11 +548,11 @@ export class Application {
       const pathname = url.pathname;
       
       if (pathname.startsWith(normalizedPath)) {
-        router.handle(req, res, next);
-      } else {
-        // If path doesn't match, skip to the next middleware
-        next();
+        return router.handle(req, res, next);
       }
+      
+      // If path doesn't match, skip to the next middleware
+      return next();
     });
     
     return this;
@@ -259,7 +574,10 @@ export class Application {
     const server = http.createServer(this.handleRequest.bind(this));
     
     server.listen(port, () => {
-      Application.logger.info(`Server is running on http://localhost:${port}`);
+      // Port 0 picks a free port, so report the one actually bound
+      const address = server.address();
+      const boundPort = address && typeof address === 'object' ? address.port : port;
+      this.logger.info(`Server is running on http://localhost:${boundPort}`, { port: boundPort });
       if (callback) callback();
     });
     
@@ -273,218 +591,275 @@ export class Application {
     // Enhance request and response objects
     const request = this.enhanceRequest(req);
     const response = this.enhanceResponse(res);
-    
-    // Create middleware chain
-    const chain = [...this.middlewares];
+    request.res = response;
     
     // Find matching route
     const url = new URL(req.url || '/', `http://${req.headers.host}`);
     Application.logger.debug('request', `Processing ${req.method} request for ${url.pathname}`);
     
-    // First log all routes for debugging purposes
-    Application.logger.debug('route', `Registered routes:`, this.routes.map(r => `${r.method} ${r.path}`));
-    
-    const route = this.routes.find(r => 
-      r.method === req.method && this.matchRoute(r.path, url.pathname)
-    );
+    // HEAD requests are answered by GET routes unless a HEAD route exists
+    const method = req.method || 'GET';
+    const match = this.routeTree.lookup(method, url.pathname)
+      || (method === 'HEAD' ? this.routeTree.lookup('GET', url.pathname) : null);
+    const route = match ? match.value : undefined;
+    
+    // Every record logged for the request carries its id and route
+    const requestId = req.headers['x-request-id'];
+    request.id = typeof requestId === 'string' && requestId.length > 0 && requestId.length <= 200 ? requestId : randomUUID();
+    request.log = childLogger(this.logger, {
+      requestId: request.id,
+      method,
+      url: req.url,
+      ...(route ? { route: route.path } : {})
+    });
     
     if (route) {
       Application.logger.debug('route', `Route matched: ${route.method} ${route.path}`);
-      // Extract route params
-      request.params = this.extractParams(route.path, url.pathname);
-      
-      // Add all handlers from the route to the middleware chain
-      Application.logger.debug('request', `Adding ${route.handlers.length} route handlers to middleware chain`);
-      
-      // Debug each handler to better understand what's being executed
-      route.handlers.forEach((handler, idx) => {
-        Application.logger.debug('handler', `Handler #${idx + 1} info:`, {
-          name: handler.name || 'anonymous',
-          toString: handler.toString().substring(0, 100) + '...',
-          length: handler.length
-        });
-        chain.push(handler);
-      });
+      // Params are extracted by the route tree during lookup
+      request.params = match!.params;
     } else {
       Application.logger.debug('route', `No matching route found for ${req.method} ${url.pathname}`);
     }
     
-    // Execute middleware chain
-    let index = 0;
+    const chain = this.buildChain(route);
     Application.logger.debug('request', `Starting middleware chain execution with ${chain.length} handlers`);
     
+    // Track which handler is running, to report where errors were raised
+    let index = 0;
+    let current: ErrorContext | undefined;
+    let lastError: any;
+    let failedAt: ErrorContext | undefined;
+    let notFoundHandled = false;
+    
+    // The not found handler counts as registered after all middleware and routes,
+    // so only the error handlers registered after those see its errors
+    let notFoundAt = chain.length;
+    while (notFoundAt > 0 && chain[notFoundAt - 1].routesBefore === this.routes.length) {
+      notFoundAt--;
+    }
+    
+    // Helper function to check if response has been sent
+    const isResponseEnded = () => {
+      return response.writableEnded || response.headersSent;
+    };
+    
     const next: NextFunction = (err?: any) => {
       if (err) {
         Application.logger.debug('error', `Error in middleware chain:`, err);
-        return this.handleError(err, request, response);
+        
+        // Errors passed along unchanged keep the position where they were first raised
+        if (err !== lastError) {
+          lastError = err;
+          failedAt = current;
+        }
       }
       
-      const middleware = chain[index++];
-      if (middleware) {
-        Application.logger.debug('request', `Executing middleware #${index} of ${chain.length}`);
+      // Errors skip ahead to the next error handler, anything else to the next regular handler
+      const resumeAt = index;
+      while (index < chain.length && (chain[index].type === 'error handler') !== !!err) {
+        index++;
+      }
+      
+      // Nothing left answered the request, including after an error handler called next()
+      if (!err && index >= chain.length && !notFoundHandled && !isResponseEnded()) {
+        Application.logger.debug('request', `No response sent, executing not found handler`);
+        notFoundHandled = true;
+        index = Math.max(resumeAt, notFoundAt);
+        current = { position: index, total: chain.length, name: this.notFoundHandler.name || 'anonymous', type: 'not found handler' };
+        return invokeHandler(this.notFoundHandler, request, response, (notFoundErr?: any) => {
+          return notFoundErr ? next(notFoundErr) : Promise.resolve();
+        });
+      }
+      
+      const entry = chain[index++];
+      if (entry) {
+        Application.logger.debug('request', `Executing ${entry.type} #${index} of ${chain.length}`);
+        current = { position: index, total: chain.length, name: entry.handler.name || 'anonymous', type: entry.type };
+        
+        if (entry.type === 'error handler') {
+          const errorHandler = entry.handler as ErrorHandlerMiddleware;
+          return invokeHandler((req: Request, res: Response, nextFn: NextFunction) => {
+            return errorHandler(err, req, res, nextFn);
+          }, request, response, next);
+        }
         
         // Add more detailed debugging about the handler being executed
-        const isRouteHandler = index > this.middlewares.length;
-        Application.logger.debug('handler', `${isRouteHandler ? 'Route handler' : 'Middleware'} details:`, {
-          name: middleware.name || 'anonymous',
-          type: isRouteHandler ? 'route handler' : 'middleware',
+        Application.logger.debug('handler', `${entry.type === 'route handler' ? 'Route handler' : 'Middleware'} details:`, {
+          name: entry.handler.name || 'anonymous',
+          type: entry.type,
           position: index,
-          paramCount: middleware.length,
-          source: middleware.toString().substring(0, 150) + '...'
+          paramCount: entry.handler.length,
+          source: entry.handler.toString().substring(0, 150) + '...'
         });
         
-        try {
-          Application.logger.debug('handler', `About to call handler ${middleware.name || 'anonymous'}`);
-          middleware(request, response, next);
-          Application.logger.debug('handler', `Handler ${middleware.name || 'anonymous'} execution completed`);
-        } catch (err) {
-          Application.logger.debug('error', `Exception caught in middleware #${index}:`, err);
-          next(err);
-        }
-      } else {
-        Application.logger.debug('request', `End of middleware chain reached`);
-        // We're done with the middleware chain
-        
-        // If no route matched and response hasn't been sent, call the not found handler
-        if (!hasRoute && !isResponseEnded()) {
-          Application.logger.debug('request', `No route matched and no response sent, executing not found handler`);
-          this.notFoundHandler(request, response, () => {});
-        }
+        // Sync throws and rejected promises are both routed to next(err)
+        Application.logger.debug('handler', `About to call handler ${entry.handler.name || 'anonymous'}`);
+        const done = invokeHandler(entry.handler as Middleware, request, response, next);
+        Application.logger.debug('handler', `Handler ${entry.handler.name || 'anonymous'} returned`);
+        return done;
       }
+      
+      Application.logger.debug('request', `End of middleware chain reached`);
+      
+      // No error handler left, fall back to the default one
+      if (err) {
+        return this.handleError(err, request, response, failedAt);
+      }
+      
+      return Promise.resolve();
     };
     
-    // Always execute middleware chain first, even if no route matched
-    // This allows global middleware to run in all cases
-    // The notFoundHandler will be called only if no route matched and no middleware ended the response
-    let hasRoute = !!route;
-    
-    // Helper function to check if response has been sent
-    const isResponseEnded = () => {
-      return response.writableEnded || response.headersSent;
-    };
-    
-    // Start the middleware chain
-    next();
-    
-    // Note: We don't check for 404 here since the next() function executes middleware asynchronously.
-    // The not found handler will be called at the end of the middleware chain if needed (in the next function).
+    // Start the middleware chain. The default error handler can fail too, for
+    // example on an invalid error header or a request body it can't serialize.
+    next().catch((err) => this.handleFailedErrorResponse(err, response));
   }
   
   /**
-   * Handle errors in middleware or route handlers
+   * Build the chain of handlers for a request, in Express order: middleware
+   * and error handlers as registered, then the route's handlers, then the
+   * error handlers registered after the route
+   * @param route The matched route, if any
    */
-  private handleError(err: any, req: Request, res: Response): void {
-    Application.logger.error('Error:', err);
-    res.status(500).send('Internal Server Error');
-  }
-  
-  /**
-   * Enhance the request object with additional properties and methods
-   */
-  private enhanceRequest(req: IncomingMessage): Request {
-    const request = req as Request;
-    const url = new URL(req.url || '/', `http://${req.headers.host}`);
+  private buildChain(route?: Route): ChainEntry[] {
+    const chain: ChainEntry[] = [];
+    const afterRoute: ChainEntry[] = [];
+    const routeIndex = route ? this.routeIndexes.get(route)! : Infinity;
+    
+    for (const layer of this.layers) {
+      if (layer.isErrorHandler) {
+        const entry: ChainEntry = { handler: layer.handler, type: 'error handler', routesBefore: layer.routesBefore };
+        (layer.routesBefore > routeIndex ? afterRoute : chain).push(entry);
+      } else {
+        chain.push({ handler: layer.handler, type: 'middleware' });
+      }
+    }
     
-    // Initialize properties
-    request.params = {};
-    request.query = Object.fromEntries(url.searchParams);
-    request.body = {};
-    request.path = url.pathname;
+    if (route) {
+      route.handlers.forEach(handler => chain.push({ handler, type: 'route handler' }));
+    }
     
-    return request;
+    return chain.concat(afterRoute);
   }
   
   /**
-   * Enhance the response object with additional methods
+   * Default error handler, used when no error middleware handled the error
+   * @param context Where in the middleware chain the error was raised
    */
-  private enhanceResponse(res: ServerResponse): Response {
-    const response = res as Response;
+  private async handleError(err: any, req: Request, res: Response, context?: ErrorContext): Promise<void> {
+    const status = getErrorStatus(err);
     
-    // Add status method
-    response.status = function(code: number): Response {
-      this.statusCode = code;
-      return this;
-    };
+    // Client errors are expected, only server errors are logged as errors
+    if (status >= 500) {
+      req.log.error(`${status} ${req.method} ${req.url}: ${err && err.message}`, { status, err });
+    } else {
+      req.log.warn(`${status} ${req.method} ${req.url}: ${err && err.message}`, { status });
+    }
     
-    // Add json method
-    response.json = function(data: any): Response {
-      Application.logger.debug('response', `json() method called with data:`, typeof data);
-      this.setHeader('Content-Type', 'application/json');
-      Application.logger.debug('response', `About to call this.end() in json() method`);
-      this.end(JSON.stringify(data));
-      Application.logger.debug('response', `Finished json() method execution`);
-      return this;
-    };
+    // Too late to send an error response, close the connection instead
+    if (res.headersSent) {
+      if (!res.writableEnded) {
+        res.destroy();
+      }
+      return;
+    }
     
-    // Add send method
-    response.send = function(body: string): Response {
-      Application.logger.debug('response', `send() method called with body:`, body.substring(0, 50) + (body.length > 50 ? '...' : ''));
-      this.setHeader('Content-Type', 'text/html');
-      Application.logger.debug('response', `About to call this.end() in send() method`);
-      this.end(body);
-      Application.logger.debug('response', `Finished send() method execution`);
-      return this;
-    };
+    setErrorHeaders(res, err);
+    
+    // RFC 7807 problem details, when enabled for this application
+    const problemDetails = this.settings.problemDetails;
+    if (problemDetails) {
+      sendProblem(res, toProblemDetails(err, {
+        ...(typeof problemDetails === 'object' ? problemDetails : {}),
+        instance: req.url,
+        production: Application.isProduction()
+      }));
+      return;
+    }
     
-    return response;
+    // Server errors get a detailed error page during development
+    if (status >= 500 && !Application.isProduction()) {
+      return this.sendDevelopmentError(err, req, res, context);
+    }
+    
+    res.statusCode = status;
+    res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+    res.end(getErrorMessage(err, status));
   }
   
   /**
-   * Check if a route path matches a URL pathname
+   * Last resort when the default error handler failed: a plain 500, or
+   * closing the connection if the headers are already out
    */
-  private matchRoute(routePath: string, urlPath: string): boolean {
-    Application.logger.debug('route', `Checking route: '${routePath}' against URL path: '${urlPath}'`);
+  private handleFailedErrorResponse(err: any, res: Response): void {
+    Application.logger.error('Error while sending the error response:', err);
     
-    // Special case for root path
-    if (routePath === '/') {
-      const isRootMatch = urlPath === '/' || urlPath === '';
-      Application.logger.debug('route', `Root path special case: ${isRootMatch ? 'MATCHED ✓' : 'NOT MATCHED ✗'}`);
-      return isRootMatch;
+    if (res.headersSent) {
+      if (!res.writableEnded) {
+        res.destroy();
+      }
+      return;
     }
     
-    // Convert route path to regex pattern
-    const pattern = routePath
-      .replace(/\/+$/, '')  // Remove trailing slashes
-      .replace(/:(\w+)/g, '([^/]+)')  // Replace :param with capture group
-      .replace(/\//g, '\\/');  // Escape forward slashes
+    res.statusCode = 500;
+    res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+    res.end('Internal Server Error');
+  }
+  
+  /**
+   * Send the development error page, or its JSON equivalent for API clients
+   */
+  private async sendDevelopmentError(err: any, req: Request, res: Response, context?: ErrorContext): Promise<void> {
+    const report = await buildErrorReport(err, req, context);
     
-    const regex = new RegExp(`^${pattern}$`);
-    Application.logger.debug('route', `Generated regex pattern: ${regex}`);
+    // The source excerpts are read asynchronously, the response may be gone by now
+    if (res.headersSent || res.destroyed) {
+      return;
+    }
     
-    const isMatch = regex.test(urlPath);
-    Application.logger.debug('route', `Result: ${isMatch ? 'MATCHED ✓' : 'NOT MATCHED ✗'}`);
+    const html = req.accepts(['json', 'html']) === 'html';
+    const body = html ? renderErrorPage(report) : JSON.stringify(report);
     
-    return isMatch;
+    res.statusCode = report.error.status;
+    res.setHeader('Content-Type', html ? 'text/html; charset=utf-8' : 'application/json; charset=utf-8');
+    res.setHeader('Content-Length', Buffer.byteLength(body));
+    res.end(body);
   }
   
   /**
-   * Extract parameters from URL based on route path
+   * Enhance the request object with additional properties and methods
    */
-  private extractParams(routePath: string, urlPath: string): Record<string, string> {
-    const params: Record<string, string> = {};
+  private enhanceRequest(req: IncomingMessage): Request {
+    const request = req as Request;
+    const url = new URL(req.url || '/', `http://${req.headers.host}`);
     
-    // Extract parameter names from route path
-    const paramNames = (routePath.match(/:\w+/g) || [])
-      .map(param => param.substring(1));
+    // Initialize properties
+    request.params = {};
+    request.query = Object.fromEntries(url.searchParams);
+    request.body = {};
+    request.path = url.pathname;
+    request.cookies = {};
+    request.signedCookies = {};
+    request.files = [];
+    request.app = this;
     
-    // Extract parameter values from URL
-    const pattern = routePath
-      .replace(/\/+$/, '')  // Remove trailing slashes
-      .replace(/:(\w+)/g, '([^/]+)')  // Replace :param with capture group
-      .replace(/\//g, '\\/');  // Escape forward slashes
+    // Content negotiation helpers and computed properties (fresh/stale)
+    Object.assign(request, requestMethods);
+    Object.defineProperties(request, requestProperties);
     
-    const regex = new RegExp(`^${pattern}$`);
-    const matches = urlPath.match(regex);
+    return request;
+  }
+  
+  /**
+   * Enhance the response object with additional methods
+   */
+  private enhanceResponse(res: ServerResponse): Response {
+    const response = res as Response;
+    response.app = this;
     
-    if (matches) {
-      // Skip the first match (full string match)
-      matches.slice(1).forEach((value, index) => {
-        const name = paramNames[index];
-        params[name] = value;
-      });
-    }
+    // Sending and content negotiation helpers
+    Object.assign(response, responseMethods);
     
-    return params;
+    return response;
   }
 }
 
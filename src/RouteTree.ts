@@ -0,0 +1,260 @@
+/**
+ * Result of a successful route lookup
+ */
+export interface RouteMatch<T> {
+  value: T;
+  params: Record<string, string>;
+}
+
+/**
+ * Edge from a node to the subtree that follows a `:param` segment
+ */
+interface ParamEdge<T> {
+  name: string;
+  node: RouteNode<T>;
+}
+
+/**
+ * A single node of the radix tree. `prefix` holds the static characters
+ * consumed by this node, `values` holds whatever was registered for each
+ * HTTP method when a route ends exactly here.
+ */
+class RouteNode<T> {
+  public children: RouteNode<T>[] = [];
+  public params: ParamEdge<T>[] = [];
+  public values = new Map<string, T>();
+
+  constructor(public prefix: string) {}
+
+  /**
+   * Whether any static child continues inside the current path segment
+   * (e.g. the `.json` in `/files/:name.json`)
+   */
+  public hasInlineChildren(): boolean {
+    return this.children.some(child => child.prefix[0] !== '/');
+  }
+}
+
+/**
+ * Normalize a route or request path: ensure a leading slash and strip
+ * trailing slashes (except for the root path)
+ * @param routePath The path to normalize
+ */
+export function normalizePath(routePath: string): string {
+  let normalizedPath = routePath.startsWith('/') ? routePath : '/' + routePath;
+
+  while (normalizedPath.length > 1 && normalizedPath.endsWith('/')) {
+    normalizedPath = normalizedPath.slice(0, -1);
+  }
+
+  return normalizedPath;
+}
+
+/**
+ * Radix tree used to match request paths against registered routes.
+ *
+ * Routes are compiled into the tree when they are registered, so a lookup
+ * walks the request path once instead of testing every route. Static
+ * children always win over `:param` segments; the matcher only backtracks
+ * into a parameter branch when the static branch cannot complete the match.
+ */
+export class RouteTree<T> {
+  private root = new RouteNode<T>('');
+  private size = 0;
+
+  /**
+   * Number of method/path pairs registered in the tree
+   */
+  get count(): number {
+    return this.size;
+  }
+
+  /**
+   * Register a value for a method and path pattern.
+   * If the same method and path are registered twice, the first
+   * registration is kept.
+   * @param method The HTTP method
+   * @param routePath The path pattern, e.g. `/users/:id`
+   * @param value The value returned by `lookup` for matching requests
+   * @returns `true` if the value was added, `false` if the pair already existed
+   */
+  public insert(method: string, routePath: string, value: T): boolean {
+    let node = this.root;
+    let rest = normalizePath(routePath);
+
+    while (rest.length > 0) {
+      const paramStart = rest.indexOf(':');
+
+      if (paramStart === -1) {
+        node = this.insertStatic(node, rest);
+        break;
+      }
+
+      if (paramStart > 0) {
+        node = this.insertStatic(node, rest.slice(0, paramStart));
+      }
+
+      const nameMatch = /^:(\w+)/.exec(rest.slice(paramStart));
+      if (!nameMatch) {
+        throw new Error(`Invalid route parameter in path: ${routePath}`);
+      }
+
+      const name = nameMatch[1];
+      let edge = node.params.find(param => param.name === name);
+      if (!edge) {
+        edge = { name, node: new RouteNode<T>('') };
+        node.params.push(edge);
+      }
+
+      node = edge.node;
+      rest = rest.slice(paramStart + nameMatch[0].length);
+    }
+
+    if (node.values.has(method)) {
+      return false;
+    }
+
+    node.values.set(method, value);
+    this.size++;
+    return true;
+  }
+
+  /**
+   * Find the value registered for a method and request path
+   * @param method The HTTP method of the request
+   * @param requestPath The request pathname (without the query string)
+   * @returns The matched value and extracted params, or null
+   */
+  public lookup(method: string, requestPath: string): RouteMatch<T> | null {
+    const names: string[] = [];
+    const values: string[] = [];
+    const value = this.find(this.root, normalizePath(requestPath), 0, method, names, values);
+
+    if (value === undefined) {
+      return null;
+    }
+
+    const params: Record<string, string> = {};
+    for (let i = 0; i < names.length; i++) {
+      params[names[i]] = values[i];
+    }
+
+    return { value, params };
+  }
+
+  /**
+   * Insert a static fragment below a node, splitting existing
+   * nodes where their prefixes diverge
+   */
+  private insertStatic(node: RouteNode<T>, fragment: string): RouteNode<T> {
+    let current = node;
+    let rest = fragment;
+
+    while (rest.length > 0) {
+      const index = current.children.findIndex(child => child.prefix[0] === rest[0]);
+
+      if (index === -1) {
+        const leaf = new RouteNode<T>(rest);
+        current.children.push(leaf);
+        return leaf;
+      }
+
+      let child = current.children[index];
+      const common = commonPrefixLength(child.prefix, rest);
+
+      if (common < child.prefix.length) {
+        // Split the existing child at the point where the prefixes diverge
+        const split = new RouteNode<T>(child.prefix.slice(0, common));
+        child.prefix = child.prefix.slice(common);
+        split.children.push(child);
+        current.children[index] = split;
+        child = split;
+      }
+
+      current = child;
+      rest = rest.slice(common);
+    }
+
+    return current;
+  }
+
+  /**
+   * Walk the tree from `node`, with `path` consumed up to `index`.
+   * Matched params are pushed onto `names`/`values` and popped again
+   * when a branch is abandoned.
+   */
+  private find(
+    node: RouteNode<T>,
+    path: string,
+    index: number,
+    method: string,
+    names: string[],
+    values: string[]
+  ): T | undefined {
+    if (index === path.length) {
+      return node.values.get(method);
+    }
+
+    // Static children take priority over parameters
+    for (const child of node.children) {
+      if (child.prefix[0] === path[index]) {
+        if (path.startsWith(child.prefix, index)) {
+          const found = this.find(child, path, index + child.prefix.length, method, names, values);
+          if (found !== undefined) {
+            return found;
+          }
+        }
+        break;
+      }
+    }
+
+    if (node.params.length === 0) {
+      return undefined;
+    }
+
+    let segmentEnd = path.indexOf('/', index);
+    if (segmentEnd === -1) {
+      segmentEnd = path.length;
+    }
+
+    // Parameters never match an empty segment
+    if (segmentEnd === index) {
+      return undefined;
+    }
+
+    for (const edge of node.params) {
+      // Try the whole segment first, then shorter values when the
+      // parameter is followed by static text in the same segment
+      const minEnd = edge.node.hasInlineChildren() ? index + 1 : segmentEnd;
+
+      for (let end = segmentEnd; end >= minEnd; end--) {
+        names.push(edge.name);
+        values.push(path.slice(index, end));
+
+        const found = this.find(edge.node, path, end, method, names, values);
+        if (found !== undefined) {
+          return found;
+        }
+
+        names.pop();
+        values.pop();
+      }
+    }
+
+    return undefined;
+  }
+}
+
+/**
+ * Length of the common prefix of two strings
+ */
+function commonPrefixLength(a: string, b: string): number {
+  const max = Math.min(a.length, b.length);
+  let i = 0;
+  while (i < max && a.charCodeAt(i) === b.charCodeAt(i)) {
+    i++;
+  }
+  return i;
+}
+
+export default RouteTree;
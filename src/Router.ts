@@ -1,24 +1,18 @@
-import * as http from 'http';
 import * as url from 'url';
 import { Application } from './Application';
-
-// Types from the existing Application
-export type Request = http.IncomingMessage & {
-  params: Record<string, string>;
-  query: Record<string, string>;
-  body?: any;
-  path: string;
-};
-
-export type Response = http.ServerResponse & {
-  status: (code: number) => Response;
-  send: (body: any) => void;
-  json: (body: any) => void;
-};
-
-export type NextFunction = (err?: any) => void;
-export type Middleware = (req: Request, res: Response, next: NextFunction) => void;
-export type RequestHandler = (req: Request, res: Response, next: NextFunction) => void;
+import { RouteTree, normalizePath } from './RouteTree';
+import { invokeHandler, isErrorHandler } from './dispatch';
+import type {
+  Request,
+  Response,
+  NextFunction,
+  Middleware,
+  RequestHandler,
+  ErrorHandlerMiddleware
+} from './Application';
+
+// The router shares the request/response types of the application
+export type { Request, Response, NextFunction, Middleware, RequestHandler, ErrorHandlerMiddleware };
 
 export interface Route {
   method: string;
@@ -28,7 +22,9 @@ export interface Route {
 
 export class Router {
   private _routes: Route[] = [];
+  private routeTree = new RouteTree<Route>();
   private middlewares: Middleware[] = [];
+  private errorMiddlewares: ErrorHandlerMiddleware[] = [];
   private basePath: string = '';
 
   constructor() {}
@@ -41,10 +37,18 @@ export class Router {
   }
 
   /**
-   * Use middleware for this router
+   * Use middleware for this router.
+   * Four-argument `(err, req, res, next)` functions are registered as error
+   * handlers for errors raised inside this router.
    */
-  use(middleware: Middleware): Router {
-    this.middlewares.push(middleware);
+  use(middleware: Middleware): Router;
+  use(middleware: ErrorHandlerMiddleware): Router;
+  use(middleware: Middleware | ErrorHandlerMiddleware): Router {
+    if (isErrorHandler<ErrorHandlerMiddleware>(middleware)) {
+      this.errorMiddlewares.push(middleware);
+    } else {
+      this.middlewares.push(middleware);
+    }
     return this;
   }
 
@@ -80,65 +84,58 @@ export class Router {
     return this;
   }
 
+  /**
+   * Register an OPTIONS route
+   */
+  options(path: string, ...handlers: RequestHandler[]): Router {
+    this.addRoute('OPTIONS', path, handlers);
+    return this;
+  }
+
   /**
    * Add a route with the specified HTTP method
    */
   private addRoute(method: string, routePath: string, handlers: RequestHandler[]): void {
-    this._routes.push({
+    const route: Route = {
       method,
       path: routePath,
       handlers
-    });
+    };
+
+    // Routes are compiled relative to the router, so the base path can be set later
+    if (this.routeTree.insert(method, routePath, route)) {
+      this._routes.push(route);
+    } else {
+      Application.logger.warn(`Route ${method} ${routePath} is already registered in router, ignoring duplicate`);
+    }
   }
 
   /**
    * Match routes and extract URL parameters
    */
   private matchRoute(reqMethod: string, reqPath: string): { route: Route; params: Record<string, string> } | null {
-    for (const route of this._routes) {
-      if (route.method !== reqMethod) continue;
-      
-      // Get the full route path (including the base path)
-      const fullRoutePath = this.normalizePath(this.basePath + route.path);
-      const normalizedReqPath = this.normalizePath(reqPath);
-      
-      Application.logger.debug('route', `Checking route match: '${fullRoutePath}' against '${normalizedReqPath}'`);
-
-      // For exact path match (no parameters)
-      // For exact path match (no parameters)
-      if (!route.path.includes(':') && fullRoutePath === normalizedReqPath) {
-        Application.logger.debug('route', `Exact path match found for ${fullRoutePath}`);
-        return { route, params: {} };
-      }
-      const routePathSegments = fullRoutePath.split('/').filter(Boolean);
-      const reqPathSegments = normalizedReqPath.split('/').filter(Boolean);
-
-      if (routePathSegments.length !== reqPathSegments.length) continue;
+    const normalizedReqPath = this.normalizePath(reqPath);
+    let relativePath = normalizedReqPath;
 
-      const params: Record<string, string> = {};
-      let match = true;
-
-      for (let i = 0; i < routePathSegments.length; i++) {
-        const routeSegment = routePathSegments[i];
-        const reqSegment = reqPathSegments[i];
-
-        // Check if it's a parameter segment (starts with :)
-        if (routeSegment.startsWith(':')) {
-          const paramName = routeSegment.slice(1);
-          params[paramName] = reqSegment;
-        } else if (routeSegment !== reqSegment) {
-          match = false;
-          break;
-        }
+    // Strip the base path, making sure it ends on a segment boundary
+    if (this.basePath !== '/') {
+      if (normalizedReqPath !== this.basePath && !normalizedReqPath.startsWith(this.basePath + '/')) {
+        return null;
       }
+      relativePath = normalizedReqPath.slice(this.basePath.length) || '/';
+    }
 
-      if (match) {
-        Application.logger.debug('route', `Parameter path match found for ${fullRoutePath} with params:`, params);
-        return { route, params };
-      }
+    Application.logger.debug('route', `Looking up '${relativePath}' in router with base path: ${this.basePath}`);
+
+    // HEAD requests are answered by GET routes unless a HEAD route exists
+    const match = this.routeTree.lookup(reqMethod, relativePath)
+      || (reqMethod === 'HEAD' ? this.routeTree.lookup('GET', relativePath) : null);
+    if (!match) {
+      return null;
     }
 
-    return null;
+    Application.logger.debug('route', `Route match found for ${match.value.path} with params:`, match.params);
+    return { route: match.value, params: match.params };
   }
 
   /**
@@ -146,15 +143,7 @@ export class Router {
    * @param routePath The path to normalize
    */
   private normalizePath(routePath: string): string {
-    // Add leading slash if not present
-    let normalizedPath = routePath.startsWith('/') ? routePath : '/' + routePath;
-    
-    // Remove trailing slash if present (except for root path)
-    if (normalizedPath.length > 1 && normalizedPath.endsWith('/')) {
-      normalizedPath = normalizedPath.slice(0, -1);
-    }
-    
-    return normalizedPath;
+    return normalizePath(routePath);
   }
 
   /**
@@ -169,7 +158,7 @@ export class Router {
    * Handle an incoming request
    * Handle an incoming request
    */
-  handle(req: Request, res: Response, done: NextFunction): void {
+  handle(req: Request, res: Response, done: NextFunction): Promise<void> {
     const parsedUrl = url.parse(req.url || '/', true);
     const reqPath = parsedUrl.pathname || '/';
     const reqMethod = req.method || 'GET';
@@ -196,25 +185,36 @@ export class Router {
     // Chain router middlewares and route handlers
     const handlers = [...this.middlewares, ...match.route.handlers];
     let index = 0;
+    let errorIndex = 0;
+
+    const next: NextFunction = (err?: any) => {
+      if (err) {
+        // Skip the remaining handlers and run this router's error handlers
+        index = handlers.length;
+        const errorHandler = this.errorMiddlewares[errorIndex++];
+        if (errorHandler) {
+          return invokeHandler((req: Request, res: Response, nextFn: NextFunction) => {
+            return errorHandler(err, req, res, nextFn);
+          }, req, res, next);
+        }
 
-    const next = (err?: any) => {
-      // If there's an error or we've gone through all handlers, call done
-      if (err || index >= handlers.length) {
+        // Unhandled errors are passed on to the application
         return done(err);
       }
 
+      // If we've gone through all handlers, call done
+      if (index >= handlers.length) {
+        return done();
+      }
+
       // Get the next handler
       const handler = handlers[index++];
 
-      try {
-        // Execute the handler
-        handler(req, res, next);
-      } catch (error) {
-        next(error);
-      }
+      // Execute the handler, forwarding sync throws and rejections to next(err)
+      return invokeHandler(handler, req, res, next);
     };
 
-    next();
+    return next();
   }
   
   /**
@@ -235,14 +235,14 @@ export class Router {
         
         // Only process this request if the path matches our base path
         if (this.basePath === '/' || req.path.startsWith(this.basePath)) {
-          this.handle(req, res, (err?: any) => {
+          return this.handle(req, res, (err?: any) => {
             // If there was no matching route in this router, continue to next middleware
-            next(err);
+            return next(err);
           });
-        } else {
-          // Path doesn't match our base, skip to next middleware
-          next();
         }
+        
+        // Path doesn't match our base, skip to next middleware
+        return next();
       });
     }
   }
@@ -0,0 +1,232 @@
+import * as zlib from 'zlib';
+import { parseBytes } from '../bodyParser';
+import { middleware } from '../index';
+import { useTestServer } from './testServer';
+
+describe('Body parser helpers', () => {
+  test('should convert sizes to bytes', () => {
+    expect(parseBytes(512)).toBe(512);
+    expect(parseBytes('512')).toBe(512);
+    expect(parseBytes('100kb')).toBe(102400);
+    expect(parseBytes('1.5MB')).toBe(1572864);
+    expect(parseBytes(' 1 gb ')).toBe(1073741824);
+    expect(() => parseBytes('lots')).toThrow(TypeError);
+  });
+});
+
+describe('Body parser middleware', () => {
+  const server = useTestServer();
+
+  test('should parse JSON bodies with media type parameters and options', async () => {
+    server.app.post('/default', middleware.bodyParser.json(), (req, res) => {
+      res.json(req.body);
+    });
+    server.app.post('/custom', middleware.bodyParser.json({
+      type: ['+json', 'text/*'],
+      strict: false,
+      reviver: (key, value) => (key === 'at' ? new Date(value).getUTCFullYear() : value)
+    }), (req, res) => {
+      res.json({ body: req.body });
+    });
+
+    await server.start();
+
+    const post = (path: string, type: string, body: BodyInit) =>
+      fetch(`http://localhost:${server.port}${path}`, { method: 'POST', headers: { 'Content-Type': type }, body });
+
+    const withCharset = await post('/default', 'application/json; charset=utf-8', '{"name":"Zoë"}');
+    expect(await withCharset.json()).toEqual({ name: 'Zoë' });
+
+    // Other charsets are decoded, unknown ones are refused
+    const utf16 = await post('/default', 'application/json; charset=utf-16le', Buffer.from('{"a":1}', 'utf16le'));
+    expect(await utf16.json()).toEqual({ a: 1 });
+    expect((await post('/default', 'application/json; charset=klingon', '{}')).status).toBe(415);
+
+    // Strict mode only accepts objects and arrays
+    expect((await post('/default', 'application/json', '"text"')).status).toBe(400);
+
+    const custom = await post('/custom', 'application/vnd.api+json', '{"at":"2020-05-01T00:00:00Z"}');
+    expect(await custom.json()).toEqual({ body: { at: 2020 } });
+    expect(await (await post('/custom', 'text/plain', '42')).json()).toEqual({ body: 42 });
+  });
+
+  test('should reply 413 to bodies over the limit', async () => {
+    server.app.use(middleware.bodyParser.json({ limit: '1kb' }));
+    server.app.use(middleware.bodyParser.urlencoded({ limit: 1024, parameterLimit: 2 }));
+    server.app.post('/', (req, res) => {
+      res.json(req.body);
+    });
+
+    await server.start();
+
+    const small = await fetch(`http://localhost:${server.port}/`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ data: 'x'.repeat(900) })
+    });
+    expect(small.status).toBe(200);
+
+    const large = await fetch(`http://localhost:${server.port}/`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ data: 'x'.repeat(2000) })
+    });
+    expect(large.status).toBe(413);
+
+    // Without a Content-Length the limit is enforced while reading
+    const chunked = await fetch(`http://localhost:${server.port}/`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: new Blob([JSON.stringify({ data: 'x'.repeat(2000) })]).stream(),
+      duplex: 'half'
+    } as RequestInit);
+    expect(chunked.status).toBe(413);
+
+    const parameters = await fetch(`http://localhost:${server.port}/`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: 'a=1&b=2&c=3'
+    });
+    expect(parameters.status).toBe(413);
+  });
+
+  test('should decode URL-encoded bodies with their charset', async () => {
+    server.app.use(middleware.bodyParser.urlencoded());
+    server.app.post('/form', (req, res) => {
+      res.json(req.body);
+    });
+
+    await server.start();
+
+    const utf8 = await fetch(`http://localhost:${server.port}/form`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded; charset=UTF-8' },
+      body: 'city=M%C3%BCnchen&tag=a+b&tag=c'
+    });
+    expect(await utf8.json()).toEqual({ city: 'München', tag: ['a b', 'c'] });
+
+    const latin1 = await fetch(`http://localhost:${server.port}/form`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded; charset=iso-8859-1' },
+      body: 'city=M%FCnchen'
+    });
+    expect(await latin1.json()).toEqual({ city: 'München' });
+  });
+
+  test('should read raw and text bodies', async () => {
+    server.app.post('/raw', middleware.bodyParser.raw({ type: 'application/*' }), (req, res) => {
+      res.json({ isBuffer: Buffer.isBuffer(req.body), bytes: Array.from(req.body) });
+    });
+    server.app.post('/text', middleware.bodyParser.text({ defaultCharset: 'iso-8859-1' }), (req, res) => {
+      res.send(`${typeof req.body}:${req.body}`);
+    });
+
+    await server.start();
+
+    const raw = await fetch(`http://localhost:${server.port}/raw`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: new Uint8Array([0, 255, 10])
+    });
+    expect(await raw.json()).toEqual({ isBuffer: true, bytes: [0, 255, 10] });
+
+    const text = await fetch(`http://localhost:${server.port}/text`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/plain' },
+      body: new Uint8Array([0x63, 0x61, 0x66, 0xe9])
+    });
+    expect(await text.text()).toBe('string:café');
+  });
+
+  test('should leave a body that another parser already read to it', async () => {
+    server.app.use(middleware.bodyParser.json());
+    server.app.use(middleware.bodyParser.urlencoded({ type: '*/*' }));
+    server.app.post('/json', middleware.bodyParser.json({ limit: 1 }), (req, res) => {
+      res.json(req.body);
+    });
+    server.app.post('/form', middleware.bodyParser.multipart(), (req, res) => {
+      res.json({ files: req.files.length });
+    });
+
+    await server.start();
+
+    // The route's parser would reject the body as too large if it read it again
+    const json = await fetch(`http://localhost:${server.port}/json`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{"a":1}'
+    });
+    expect(json.status).toBe(200);
+    expect(await json.json()).toEqual({ a: 1 });
+
+    // The global urlencoded parser reads every other body, so multipart() passes the request on
+    const data = new FormData();
+    data.append('upload', new Blob(['content']), 'upload.txt');
+    const multipart = await fetch(`http://localhost:${server.port}/form`, { method: 'POST', body: data });
+    expect(multipart.status).toBe(200);
+    expect((await multipart.json()).files).toBe(0);
+  });
+
+  test('should decompress request bodies', async () => {
+    server.app.use(middleware.bodyParser.json({ limit: '10kb' }));
+    server.app.use(middleware.bodyParser.urlencoded());
+    server.app.use(middleware.bodyParser.text({ inflate: false }));
+    server.app.post('/', (req, res) => {
+      res.json(req.body);
+    });
+
+    await server.start();
+
+    const post = (type: string, encoding: string, body: Buffer) =>
+      fetch(`http://localhost:${server.port}/`, { method: 'POST', headers: { 'Content-Type': type, 'Content-Encoding': encoding }, body });
+
+    const gzip = await post('application/json', 'gzip', zlib.gzipSync('{"compressed":true}'));
+    expect(await gzip.json()).toEqual({ compressed: true });
+
+    const deflate = await post('application/x-www-form-urlencoded', 'deflate', zlib.deflateSync('a=1&b=2'));
+    expect(await deflate.json()).toEqual({ a: '1', b: '2' });
+
+    // Encodings are undone in reverse order
+    const layered = await post('application/json', 'gzip, br', zlib.brotliCompressSync(zlib.gzipSync('[1,2]')));
+    expect(await layered.json()).toEqual([1, 2]);
+
+    expect((await post('application/json', 'compress', Buffer.from('{}'))).status).toBe(415);
+    expect((await post('text/plain', 'gzip', zlib.gzipSync('hello'))).status).toBe(415);
+    expect((await post('application/json', 'gzip', Buffer.from('not gzip'))).status).toBe(400);
+
+    // The limit applies to the inflated size: 1 MB of zeros compresses to about 1 KB
+    const bomb = zlib.gzipSync(Buffer.alloc(1024 * 1024, '0'));
+    expect(bomb.length).toBeLessThan(10240);
+    expect((await post('application/json', 'gzip', bomb)).status).toBe(413);
+  });
+
+  test('should run the verify hook and keep the raw body', async () => {
+    const seen: string[] = [];
+    server.app.use(middleware.bodyParser.json({
+      rawBody: true,
+      verify: (req, res, buf, encoding) => {
+        seen.push(encoding);
+        if (buf.includes('forbidden')) {
+          throw new Error('Nope');
+        }
+      }
+    }));
+    server.app.post('/', (req, res) => {
+      res.json({ body: req.body, raw: req.rawBody!.toString() });
+    });
+
+    await server.start();
+
+    const post = (body: string) => fetch(`http://localhost:${server.port}/`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json; charset=UTF-8' },
+      body
+    });
+
+    const ok = await post('{ "a": 1 }');
+    expect(await ok.json()).toEqual({ body: { a: 1 }, raw: '{ "a": 1 }' });
+    expect(seen).toEqual(['utf-8']);
+
+    expect((await post('{"forbidden":true}')).status).toBe(403);
+  });
+});
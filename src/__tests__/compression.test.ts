@@ -0,0 +1,84 @@
+import * as http from 'http';
+import * as zlib from 'zlib';
+import { middleware } from '../index';
+import { useTestServer } from './testServer';
+
+describe('Compression middleware', () => {
+  const server = useTestServer();
+  
+  // fetch decompresses transparently, so look at the raw response instead
+  const get = (urlPath: string, headers: http.OutgoingHttpHeaders = {}) =>
+    new Promise<{ headers: http.IncomingHttpHeaders; body: Buffer }>((resolve, reject) => {
+      http.get({ port: server.port, path: urlPath, headers }, (res) => {
+        const chunks: Buffer[] = [];
+        res.on('data', chunk => chunks.push(chunk));
+        res.on('end', () => resolve({ headers: res.headers, body: Buffer.concat(chunks) }));
+      }).on('error', reject);
+    });
+  
+  const data = { items: Array.from({ length: 200 }, (_, i) => ({ id: i, name: `item ${i}` })) };
+  
+  test('should negotiate the encoding for large compressible responses', async () => {
+    server.app.use(middleware.compression());
+    server.app.get('/data', (req, res) => {
+      res.json(data);
+    });
+    server.app.get('/small', (req, res) => {
+      res.json({ ok: true });
+    });
+    server.app.get('/image', (req, res) => {
+      res.setHeader('Content-Type', 'image/png');
+      res.send(Buffer.alloc(4096));
+    });
+    
+    await server.start();
+    
+    const br = await get('/data', { 'Accept-Encoding': 'gzip, deflate, br' });
+    expect(br.headers['content-encoding']).toBe('br');
+    expect(br.headers['content-length']).toBeUndefined();
+    expect(br.headers['vary']).toBe('Accept-Encoding');
+    expect(JSON.parse(zlib.brotliDecompressSync(br.body).toString())).toEqual(data);
+    
+    const gzip = await get('/data', { 'Accept-Encoding': 'br;q=0.5, gzip' });
+    expect(gzip.headers['content-encoding']).toBe('gzip');
+    expect(JSON.parse(zlib.gunzipSync(gzip.body).toString())).toEqual(data);
+    
+    const deflate = await get('/data', { 'Accept-Encoding': 'deflate' });
+    expect(JSON.parse(zlib.inflateSync(deflate.body).toString())).toEqual(data);
+    
+    const identity = await get('/data');
+    expect(identity.headers['content-encoding']).toBeUndefined();
+    expect(JSON.parse(identity.body.toString())).toEqual(data);
+    
+    // Below the threshold, or already compressed
+    expect((await get('/small', { 'Accept-Encoding': 'gzip' })).headers['content-encoding']).toBeUndefined();
+    const image = await get('/image', { 'Accept-Encoding': 'gzip' });
+    expect(image.headers['content-encoding']).toBeUndefined();
+    expect(image.body.length).toBe(4096);
+  });
+  
+  test('should flush server-sent events and honor the filter', async () => {
+    server.app.use(middleware.compression({ filter: req => !req.headers['x-no-compression'] }));
+    server.app.get('/events', (req, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write('data: first\n\n');
+      setTimeout(() => res.end('data: last\n\n'), 50);
+    });
+    
+    await server.start();
+    
+    // The first event arrives compressed, before the response ends
+    const first = await new Promise<{ encoding?: string; text: string }>((resolve, reject) => {
+      http.get({ port: server.port, path: '/events', headers: { 'Accept-Encoding': 'gzip' } }, (res) => {
+        const gunzip = zlib.createGunzip();
+        res.pipe(gunzip);
+        gunzip.once('data', chunk => resolve({ encoding: res.headers['content-encoding'], text: chunk.toString() }));
+      }).on('error', reject);
+    });
+    expect(first).toEqual({ encoding: 'gzip', text: 'data: first\n\n' });
+    
+    const skipped = await get('/events', { 'Accept-Encoding': 'gzip', 'X-No-Compression': '1' });
+    expect(skipped.headers['content-encoding']).toBeUndefined();
+    expect(skipped.body.toString()).toBe('data: first\n\ndata: last\n\n');
+  });
+});
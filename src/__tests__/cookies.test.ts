@@ -0,0 +1,85 @@
+import { parseCookies, serializeCookie, sign, unsign } from '../cookies';
+import { middleware } from '../index';
+import { useTestServer } from './testServer';
+
+describe('Cookies', () => {
+  test('should parse a Cookie header', () => {
+    expect(parseCookies('a=1; b=hello%20world; c="quoted"; a=2; bad=%E0%A4%A')).toEqual({
+      a: '1',
+      b: 'hello world',
+      c: 'quoted',
+      bad: '%E0%A4%A'
+    });
+    expect(parseCookies(undefined)).toEqual({});
+  });
+
+  test('should serialize cookie attributes', () => {
+    const expires = new Date(Date.UTC(2030, 0, 1));
+
+    expect(serializeCookie('id', 'a b;c', {
+      maxAge: 3600 * 1000,
+      expires,
+      domain: 'example.com',
+      path: '/app',
+      httpOnly: true,
+      secure: true,
+      partitioned: true,
+      sameSite: 'lax'
+    })).toBe('id=a%20b%3Bc; Max-Age=3600; Domain=example.com; Path=/app; Expires=Tue, 01 Jan 2030 00:00:00 GMT; HttpOnly; Secure; Partitioned; SameSite=Lax');
+    expect(serializeCookie('flag', 'x', { sameSite: true })).toBe('flag=x; SameSite=Strict');
+  });
+
+  test('should reject invalid names and attributes', () => {
+    expect(() => serializeCookie('bad name', 'x')).toThrow(TypeError);
+    expect(() => serializeCookie('id', 'x', { path: '/a;b' })).toThrow(TypeError);
+    expect(() => serializeCookie('id', 'x', { encode: value => value })).not.toThrow();
+    expect(() => serializeCookie('id', 'x y', { encode: value => value })).toThrow(TypeError);
+  });
+
+  test('should verify signatures with rotated secrets', () => {
+    const signed = sign('user-42', 'old-secret');
+
+    expect(unsign(signed, 'old-secret')).toBe('user-42');
+    expect(unsign(signed, ['new-secret', 'old-secret'])).toBe('user-42');
+    expect(unsign(signed, 'new-secret')).toBe(false);
+    expect(unsign(signed.replace('user-42', 'user-43'), 'old-secret')).toBe(false);
+    expect(unsign('no-signature', 'old-secret')).toBe(false);
+  });
+});
+
+describe('Cookie middleware', () => {
+  const server = useTestServer();
+
+  test('should parse cookies and set signed cookies', async () => {
+    server.app.use(middleware.cookieParser(['new-secret', 'old-secret']));
+    server.app.get('/login', (req, res) => {
+      res.cookie('theme', 'dark mode', { httpOnly: true })
+        .cookie('user', '42', { signed: true, maxAge: 60000 })
+        .clearCookie('legacy')
+        .send('ok');
+    });
+    server.app.get('/me', (req, res) => {
+      res.json({ cookies: req.cookies, signedCookies: req.signedCookies });
+    });
+
+    await server.start();
+
+    const login = await fetch(`http://localhost:${server.port}/login`);
+    const setCookies = login.headers.getSetCookie();
+    expect(setCookies).toHaveLength(3);
+    expect(setCookies[0]).toBe('theme=dark%20mode; Path=/; HttpOnly');
+    expect(setCookies[1]).toMatch(/^user=s%3A42\.[\w%]+; Max-Age=60; Path=\/; Expires=/);
+    expect(setCookies[2]).toBe('legacy=; Path=/; Expires=Thu, 01 Jan 1970 00:00:00 GMT');
+
+    const signed = setCookies[1].split(';')[0];
+    const tampered = signed.replace('s%3A42', 's%3A43');
+    const me = await fetch(`http://localhost:${server.port}/me`, {
+      headers: { Cookie: `theme=dark%20mode; ${signed}; admin=${tampered.split('=')[1]}` }
+    });
+
+    expect(await me.json()).toEqual({
+      cookies: { theme: 'dark mode' },
+      signedCookies: { user: '42', admin: false }
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { Application, middleware } from '../index';
+import { useTestServer } from './testServer';
+
+describe('CORS middleware', () => {
+  const server = useTestServer();
+  
+  const preflight = (urlPath: string, headers: Record<string, string> = {}) =>
+    fetch(`http://localhost:${server.port}${urlPath}`, {
+      method: 'OPTIONS',
+      headers: { 'Access-Control-Request-Method': 'PUT', ...headers }
+    });
+  
+  test('should reflect only allowed origins', async () => {
+    server.app.use(middleware.cors({
+      origin: ['https://app.example.com', /\.example\.org$/],
+      credentials: true,
+      exposedHeaders: ['X-Total-Count']
+    }));
+    server.app.get('/items', (req, res) => {
+      res.json([]);
+    });
+    
+    await server.start();
+    
+    const get = (origin: string) => fetch(`http://localhost:${server.port}/items`, { headers: { Origin: origin } });
+    
+    const allowed = await get('https://app.example.com');
+    expect(allowed.headers.get('access-control-allow-origin')).toBe('https://app.example.com');
+    expect(allowed.headers.get('access-control-allow-credentials')).toBe('true');
+    expect(allowed.headers.get('access-control-expose-headers')).toBe('X-Total-Count');
+    expect(allowed.headers.get('vary')).toBe('Origin');
+    
+    const matched = await get('https://docs.example.org');
+    expect(matched.headers.get('access-control-allow-origin')).toBe('https://docs.example.org');
+    
+    const denied = await get('https://evil.example.net');
+    expect(denied.status).toBe(200);
+    expect(denied.headers.get('access-control-allow-origin')).toBeNull();
+    expect(denied.headers.get('access-control-allow-credentials')).toBeNull();
+    expect(denied.headers.get('vary')).toBe('Origin');
+  });
+  
+  test('should reflect the request origin when credentials are allowed without an origin option', async () => {
+    const warn = jest.spyOn(Application.logger, 'warn').mockImplementation(() => {});
+    server.app.get('/default/items', middleware.cors({ credentials: true }), (req, res) => {
+      res.json([]);
+    });
+    server.app.get('/any/items', middleware.cors({ origin: '*', credentials: true }), (req, res) => {
+      res.json([]);
+    });
+    
+    await server.start();
+    
+    const reflected = await fetch(`http://localhost:${server.port}/default/items`, { headers: { Origin: 'https://app.example.com' } });
+    expect(reflected.headers.get('access-control-allow-origin')).toBe('https://app.example.com');
+    expect(reflected.headers.get('access-control-allow-credentials')).toBe('true');
+    expect(reflected.headers.get('vary')).toBe('Origin');
+    
+    // An explicit '*' is kept, without credentials
+    const any = await fetch(`http://localhost:${server.port}/any/items`, { headers: { Origin: 'https://app.example.com' } });
+    expect(any.headers.get('access-control-allow-origin')).toBe('*');
+    expect(any.headers.get('access-control-allow-credentials')).toBeNull();
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+  
+  test('should only answer real preflight requests', async () => {
+    server.app.use(middleware.cors({ allowPrivateNetwork: true, maxAge: 600 }));
+    server.app.options('/items', (req, res) => {
+      res.status(200).send('plain OPTIONS');
+    });
+    
+    await server.start();
+    
+    const answered = await preflight('/items', {
+      Origin: 'https://app.example.com',
+      'Access-Control-Request-Private-Network': 'true'
+    });
+    expect(answered.status).toBe(204);
+    expect(answered.headers.get('access-control-allow-origin')).toBe('*');
+    expect(answered.headers.get('access-control-allow-methods')).toBe('GET,HEAD,PUT,PATCH,POST,DELETE');
+    expect(answered.headers.get('access-control-allow-headers')).toBe('Content-Type,Authorization');
+    expect(answered.headers.get('access-control-max-age')).toBe('600');
+    expect(answered.headers.get('access-control-allow-private-network')).toBe('true');
+    expect(answered.headers.get('vary')).toBeNull();
+    
+    // OPTIONS without Access-Control-Request-Method is an ordinary request
+    const plain = await fetch(`http://localhost:${server.port}/items`, { method: 'OPTIONS' });
+    expect(plain.status).toBe(200);
+    expect(await plain.text()).toBe('plain OPTIONS');
+    expect(plain.headers.get('access-control-allow-methods')).toBeNull();
+  });
+  
+  test('should support async origins, preflightContinue and per-route use', async () => {
+    const corsOptions = {
+      origin: async (origin: string | undefined) => origin === 'https://partner.example.com',
+      preflightContinue: true
+    };
+    server.app.options('/partner', middleware.cors(corsOptions), (req, res) => {
+      res.status(200).send('preflight handled by the route');
+    });
+    server.app.get('/partner', middleware.cors(corsOptions), (req, res) => {
+      res.send('partner data');
+    });
+    server.app.get('/private', (req, res) => {
+      res.send('private');
+    });
+    
+    await server.start();
+    
+    const answered = await preflight('/partner', { Origin: 'https://partner.example.com' });
+    expect(answered.status).toBe(200);
+    expect(await answered.text()).toBe('preflight handled by the route');
+    expect(answered.headers.get('access-control-allow-origin')).toBe('https://partner.example.com');
+    
+    const partner = await fetch(`http://localhost:${server.port}/partner`, { headers: { Origin: 'https://partner.example.com' } });
+    expect(partner.headers.get('access-control-allow-origin')).toBe('https://partner.example.com');
+    
+    const other = await fetch(`http://localhost:${server.port}/partner`, { headers: { Origin: 'https://other.example.com' } });
+    expect(other.headers.get('access-control-allow-origin')).toBeNull();
+    
+    const unprotected = await fetch(`http://localhost:${server.port}/private`, { headers: { Origin: 'https://partner.example.com' } });
+    expect(unprotected.headers.get('access-control-allow-origin')).toBeNull();
+  });
+});
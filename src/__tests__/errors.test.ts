@@ -0,0 +1,51 @@
+import {
+  HttpError,
+  NotFoundError,
+  PayloadTooLargeError,
+  ServiceUnavailableError,
+  createHttpError,
+  isHttpError
+} from '../index';
+
+describe('HttpError', () => {
+  test('should carry status, expose, headers and details', () => {
+    const err = new HttpError(429, 'Slow down', {
+      headers: { 'Retry-After': '30' },
+      details: { limit: 100 }
+    });
+    
+    expect(err).toBeInstanceOf(Error);
+    expect(err.status).toBe(429);
+    expect(err.statusCode).toBe(429);
+    expect(err.expose).toBe(true);
+    expect(err.headers).toEqual({ 'Retry-After': '30' });
+    expect(err.details).toEqual({ limit: 100 });
+  });
+  
+  test('should default the message to the status text', () => {
+    expect(new NotFoundError().message).toBe('Not Found');
+    expect(new PayloadTooLargeError().message).toBe('Payload Too Large');
+  });
+  
+  test('should not expose server error messages by default', () => {
+    expect(new ServiceUnavailableError('Database is down').expose).toBe(false);
+    expect(new ServiceUnavailableError('Maintenance', { expose: true }).expose).toBe(true);
+  });
+  
+  test('should treat non-error statuses as 500', () => {
+    expect(new HttpError(200).status).toBe(500);
+  });
+  
+  test('should create the matching subclass from a status code', () => {
+    const notFound = createHttpError(404, 'User not found');
+    const custom = createHttpError(418);
+    
+    expect(notFound).toBeInstanceOf(NotFoundError);
+    expect(notFound.name).toBe('NotFoundError');
+    expect(notFound.message).toBe('User not found');
+    expect(custom).toBeInstanceOf(HttpError);
+    expect(custom.status).toBe(418);
+    expect(isHttpError(custom)).toBe(true);
+    expect(isHttpError(new Error('plain'))).toBe(false);
+  });
+});
@@ -0,0 +1,43 @@
+import { compileETag, generateETag, isFresh } from '../etag';
+
+describe('ETags', () => {
+  test('should generate strong and weak ETags from the body', () => {
+    const strong = generateETag('hello');
+
+    expect(strong).toMatch(/^"5-[\w+/]{27}"$/);
+    expect(generateETag(Buffer.from('hello'))).toBe(strong);
+    expect(generateETag('hello', true)).toBe(`W/${strong}`);
+    expect(generateETag('world')).not.toBe(strong);
+  });
+
+  test('should compile the etag setting', () => {
+    expect(compileETag(false)).toBeUndefined();
+    expect(compileETag(true)!('a')).toMatch(/^W\//);
+    expect(compileETag('weak')!('a')).toMatch(/^W\//);
+    expect(compileETag('strong')!('a')).toMatch(/^"/);
+    expect(compileETag(() => '"custom"')!('a')).toBe('"custom"');
+  });
+
+  test('should compare If-None-Match weakly', () => {
+    const etag = '"5-abc"';
+
+    expect(isFresh({ 'if-none-match': 'W/"5-abc"' }, { etag })).toBe(true);
+    expect(isFresh({ 'if-none-match': '"1-xyz", "5-abc"' }, { etag })).toBe(true);
+    expect(isFresh({ 'if-none-match': '*' }, { etag })).toBe(true);
+    expect(isFresh({ 'if-none-match': '"1-xyz"' }, { etag })).toBe(false);
+    expect(isFresh({ 'if-none-match': '"5-abc"' }, {})).toBe(false);
+  });
+
+  test('should compare If-Modified-Since with Last-Modified', () => {
+    const lastModified = 'Mon, 05 Oct 2026 10:00:00 GMT';
+
+    expect(isFresh({ 'if-modified-since': lastModified }, { 'last-modified': lastModified })).toBe(true);
+    expect(isFresh({ 'if-modified-since': 'Sun, 04 Oct 2026 10:00:00 GMT' }, { 'last-modified': lastModified })).toBe(false);
+    expect(isFresh({ 'if-modified-since': 'not a date' }, { 'last-modified': lastModified })).toBe(false);
+  });
+
+  test('should never be fresh for unconditional or no-cache requests', () => {
+    expect(isFresh({}, { etag: '"1-a"' })).toBe(false);
+    expect(isFresh({ 'if-none-match': '"1-a"', 'cache-control': 'no-cache' }, { etag: '"1-a"' })).toBe(false);
+  });
+});
@@ -0,0 +1,149 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileCache } from '../fileCache';
+import { middleware } from '../index';
+import { useTestServer } from './testServer';
+
+describe('FileCache', () => {
+  let dir: string;
+
+  const write = (name: string, content: string) => {
+    const filePath = path.join(dir, name);
+    fs.writeFileSync(filePath, content);
+    return { filePath, stats: fs.statSync(filePath) };
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'file-cache-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should cache files with their headers and count hits and misses', async () => {
+    const cache = new FileCache();
+    const { filePath, stats } = write('style.css', 'body {}');
+
+    expect(await cache.get(filePath)).toBeUndefined();
+    const loaded = await cache.load(filePath, stats);
+    expect(loaded).toMatchObject({ type: 'text/css', lastModified: stats.mtime.toUTCString() });
+    expect(loaded!.body.toString()).toBe('body {}');
+    expect(loaded!.etag).toMatch(/^W\/"/);
+
+    expect(await cache.get(filePath)).toBe(loaded);
+    expect(await cache.get(filePath, stats)).toBe(loaded);
+    expect(cache.stats()).toEqual({ hits: 2, misses: 1, evictions: 0, invalidations: 0, entries: 1, size: 7 });
+  });
+
+  test('should evict the least recently used files', async () => {
+    const cache = new FileCache({ maxSize: 10 });
+    const a = write('a.txt', 'aaaa');
+    const b = write('b.txt', 'bbbb');
+    const c = write('c.txt', 'cccc');
+
+    await cache.load(a.filePath, a.stats);
+    await cache.load(b.filePath, b.stats);
+    await cache.get(a.filePath);
+    await cache.load(c.filePath, c.stats);
+
+    expect(await cache.get(b.filePath)).toBeUndefined();
+    expect(await cache.get(a.filePath)).toBeDefined();
+    expect(cache.stats()).toMatchObject({ evictions: 1, entries: 2, size: 8 });
+
+    // Too large to cache at all
+    const large = write('large.txt', 'x'.repeat(11));
+    expect(await cache.load(large.filePath, large.stats)).toBeUndefined();
+    expect(cache.stats().entries).toBe(2);
+  });
+
+  test('should drop files whose mtime or size changed', async () => {
+    const cache = new FileCache();
+    const { filePath, stats } = write('app.js', 'v1');
+    await cache.load(filePath, stats);
+
+    fs.writeFileSync(filePath, 'v22');
+    expect(await cache.get(filePath)).toBeUndefined();
+    expect(cache.stats()).toMatchObject({ invalidations: 1, entries: 0 });
+
+    await cache.load(filePath, fs.statSync(filePath));
+    fs.rmSync(filePath);
+    expect(await cache.get(filePath)).toBeUndefined();
+    expect(cache.stats().invalidations).toBe(2);
+  });
+
+  test('should not cache a file rewritten with the same size after it was stat()ed', async () => {
+    const cache = new FileCache();
+    const { filePath, stats } = write('config.json', '{"v":1}');
+
+    fs.writeFileSync(filePath, '{"v":2}');
+    fs.utimesSync(filePath, stats.atime, new Date(stats.mtimeMs + 5000));
+    expect(await cache.load(filePath, stats)).toBeUndefined();
+    expect(cache.stats().entries).toBe(0);
+
+    const loaded = await cache.load(filePath, fs.statSync(filePath));
+    expect(loaded!.body.toString()).toBe('{"v":2}');
+  });
+
+  test('should drop files when fs.watch reports a change', async () => {
+    const cache = new FileCache({ watch: true });
+    const { filePath, stats } = write('app.js', 'v1');
+    await cache.load(filePath, stats);
+
+    fs.writeFileSync(filePath, 'v2');
+
+    // Hits don't stat the file, so wait for the watcher
+    for (let i = 0; i < 50 && cache.stats().entries > 0; i++) {
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+    expect(await cache.get(filePath)).toBeUndefined();
+    expect(cache.stats().invalidations).toBe(1);
+    cache.clear();
+  });
+});
+
+describe('FileCache in serveStatic', () => {
+  const server = useTestServer();
+
+  let dir: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'file-cache-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should send static files from the file cache', async () => {
+    fs.writeFileSync(path.join(dir, 'cached.mp4'), '0123456789abcdefghij');
+    const cache = new FileCache();
+    server.app.use(middleware.serveStatic(dir, { cache }));
+
+    await server.start();
+
+    const get = (headers: Record<string, string> = {}) => fetch(`http://localhost:${server.port}/cached.mp4`, { headers });
+
+    const first = await get();
+    expect(await first.text()).toBe('0123456789abcdefghij');
+    const second = await get();
+    expect(await second.text()).toBe('0123456789abcdefghij');
+    expect(second.headers.get('content-type')).toBe('video/mp4');
+    expect(second.headers.get('etag')).toBe(first.headers.get('etag'));
+    expect(second.headers.get('last-modified')).toBe(first.headers.get('last-modified'));
+
+    const range = await get({ Range: 'bytes=0-1, 18-' });
+    expect(await range.text()).toContain('Content-Range: bytes 18-19/20\r\n\r\nij');
+
+    const revalidated = await get({ 'If-None-Match': first.headers.get('etag')!, 'Cache-Control': 'max-age=0' });
+    expect(revalidated.status).toBe(304);
+
+    expect(cache.stats()).toMatchObject({ hits: 3, misses: 1, entries: 1, size: 20 });
+
+    // Changed files are read again
+    fs.writeFileSync(path.join(dir, 'cached.mp4'), 'changed');
+    expect(await (await get()).text()).toBe('changed');
+    expect(cache.stats()).toMatchObject({ misses: 2, invalidations: 1 });
+  });
+});
@@ -1,5 +1,8 @@
-import express, { Application, Request, Response } from '../index';
+import express, { Application, Router, Request, Response, middleware, HttpError, BadRequestError, NotFoundError } from '../index';
+import * as fs from 'fs';
 import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
 import { AddressInfo } from 'net';
 
 describe('Express-like Framework', () => {
@@ -77,6 +80,24 @@ describe('Express-like Framework', () => {
     expect(data).toEqual({ userId: '123', postId: '456' });
   });
   
+  test('should prefer static routes over parameterized routes', async () => {
+    app.get('/users/:id', (req: Request, res: Response) => {
+      res.status(200).json({ route: 'param', id: req.params.id });
+    });
+    
+    app.get('/users/me', (req: Request, res: Response) => {
+      res.status(200).json({ route: 'static' });
+    });
+    
+    await startServer();
+    
+    let response = await fetch(`http://localhost:${port}/users/me`);
+    expect(await response.json()).toEqual({ route: 'static' });
+    
+    response = await fetch(`http://localhost:${port}/users/42`);
+    expect(await response.json()).toEqual({ route: 'param', id: '42' });
+  });
+  
   test('should handle 404 for non-existent routes', async () => {
     app.setNotFoundHandler((req, res) => {
       res.status(404).json({ error: 'Not Found', message: `Route not found: ${req.url}` });
@@ -186,5 +207,756 @@ describe('Express-like Framework', () => {
     expect(data.middlewareRan).toBe(true);
     expect(data.async).toBe(true);
   });
+  
+  test('should route rejected async handlers to error handling', async () => {
+    app.get('/reject', async () => {
+      await new Promise(resolve => setTimeout(resolve, 10));
+      throw new Error('Async failure');
+    });
+    
+    await startServer();
+    
+    const response = await fetch(`http://localhost:${port}/reject`);
+    
+    expect(response.status).toBe(500);
+  });
+  
+  test('should route rejected async handlers in mounted routers to error handling', async () => {
+    const router = new Router();
+    router.get('/fail', async () => {
+      throw new Error('Router failure');
+    });
+    app.mount('/api', router);
+    
+    await startServer();
+    
+    const response = await fetch(`http://localhost:${port}/api/fail`);
+    
+    expect(response.status).toBe(500);
+  });
+  
+  test('should let middleware await next() until downstream handlers finish', async () => {
+    const order: string[] = [];
+    
+    app.use(async (req, res, next) => {
+      order.push('before');
+      await next();
+      order.push('after');
+    });
+    
+    // Callback-style middleware that continues asynchronously
+    app.use((req, res, next) => {
+      setTimeout(() => next(), 10);
+    });
+    
+    app.get('/await-next', async (req, res) => {
+      await new Promise(resolve => setTimeout(resolve, 10));
+      order.push('handler');
+      res.status(200).send('OK');
+    });
+    
+    await startServer();
+    
+    const response = await fetch(`http://localhost:${port}/await-next`);
+    await response.text();
+    
+    expect(order).toEqual(['before', 'handler', 'after']);
+  });
+  
+  test('should run error middleware registered with app.use', async () => {
+    app.get('/teapot', () => {
+      throw Object.assign(new Error('I am a teapot'), { statusCode: 418 });
+    });
+    
+    app.use(middleware.errorHandler());
+    
+    await startServer();
+    
+    const response = await fetch(`http://localhost:${port}/teapot`);
+    const data = await response.json();
+    
+    expect(response.status).toBe(418);
+    expect(data).toEqual({ error: { message: 'I am a teapot', status: 418 } });
+  });
+  
+  test('should skip regular handlers and run error handlers in order after next(err)', async () => {
+    const order: string[] = [];
+    
+    app.use((req, res, next) => {
+      order.push('failing');
+      next(new Error('first'));
+    });
+    
+    app.use((err: any, req: Request, res: Response, next: any) => {
+      order.push(`error1:${err.message}`);
+      next(new Error('second'));
+    });
+    
+    app.use((req, res, next) => {
+      order.push('skipped');
+      next();
+    });
+    
+    app.use((err: any, req: Request, res: Response, next: any) => {
+      order.push(`error2:${err.message}`);
+      res.status(503).send('Handled');
+    });
+    
+    app.get('/chain', (req, res) => {
+      order.push('route');
+      res.send('Route');
+    });
+    
+    await startServer();
+    
+    const response = await fetch(`http://localhost:${port}/chain`);
+    
+    expect(response.status).toBe(503);
+    expect(await response.text()).toBe('Handled');
+    expect(order).toEqual(['failing', 'error1:first', 'error2:second']);
+  });
+  
+  test('should continue with regular handlers and end in a 404 when an error handler calls next()', async () => {
+    const order: string[] = [];
+    
+    app.use((req, res, next) => {
+      order.push('failing');
+      next(new Error('ignored'));
+    });
+    
+    app.use((err: any, req: Request, res: Response, next: any) => {
+      order.push(`error:${err.message}`);
+      next();
+    });
+    
+    app.use((req, res, next) => {
+      order.push('after');
+      next();
+    });
+    
+    app.get('/pass', (req, res, next) => {
+      order.push('route');
+      next();
+    });
+    
+    await startServer();
+    
+    // A matched route that calls next() without responding also ends in the not found handler
+    let response = await fetch(`http://localhost:${port}/pass`);
+    expect(response.status).toBe(404);
+    expect(order).toEqual(['failing', 'error:ignored', 'after', 'route']);
+    
+    order.length = 0;
+    response = await fetch(`http://localhost:${port}/unknown`);
+    expect(response.status).toBe(404);
+    expect(order).toEqual(['failing', 'error:ignored', 'after']);
+  });
+  
+  test('should only pass errors to error handlers registered after the failing handler', async () => {
+    const seen: string[] = [];
+    
+    app.use((err: any, req: Request, res: Response, next: any) => {
+      seen.push('early');
+      res.status(500).send('early');
+    });
+    
+    app.get('/fail', () => {
+      throw new Error('Route failed');
+    });
+    
+    app.use((err: any, req: Request, res: Response, next: any) => {
+      seen.push('late');
+      res.status(500).send(`late: ${err.message}`);
+    });
+    
+    // Errors of the not found handler reach the error handlers after the routes
+    app.setNotFoundHandler((req, res, next) => {
+      next(Object.assign(new Error('No such page'), { statusCode: 404 }));
+    });
+    
+    await startServer();
+    
+    let response = await fetch(`http://localhost:${port}/fail`);
+    expect(await response.text()).toBe('late: Route failed');
+    
+    response = await fetch(`http://localhost:${port}/missing`);
+    expect(await response.text()).toBe('late: No such page');
+    expect(seen).toEqual(['late', 'late']);
+  });
+  
+  test('should fall back to the default error handler when error middleware passes the error on', async () => {
+    app.use((err: any, req: Request, res: Response, next: any) => {
+      next(err);
+    });
+    
+    app.get('/unhandled', () => {
+      throw new Error('Unhandled');
+    });
+    
+    await startServer();
+    
+    const response = await fetch(`http://localhost:${port}/unhandled`);
+    
+    expect(response.status).toBe(500);
+  });
+  
+  test('should run router error handlers before application error handlers', async () => {
+    const router = new Router();
+    router.get('/broken', () => {
+      throw new Error('Broken');
+    });
+    router.use((err: any, req: Request, res: Response, next: any) => {
+      res.status(502).json({ handledBy: 'router', message: err.message });
+    });
+    app.mount('/api', router);
+    
+    app.use((err: any, req: Request, res: Response, next: any) => {
+      res.status(500).json({ handledBy: 'app' });
+    });
+    
+    await startServer();
+    
+    const response = await fetch(`http://localhost:${port}/api/broken`);
+    
+    expect(response.status).toBe(502);
+    expect(await response.json()).toEqual({ handledBy: 'router', message: 'Broken' });
+  });
+  
+  test('should send the status and headers of thrown HttpErrors', async () => {
+    app.get('/limited', () => {
+      throw new HttpError(429, 'Slow down', { headers: { 'Retry-After': '30' } });
+    });
+    
+    await startServer();
+    
+    const response = await fetch(`http://localhost:${port}/limited`);
+    
+    expect(response.status).toBe(429);
+    expect(response.headers.get('retry-after')).toBe('30');
+    expect(await response.text()).toBe('Slow down');
+  });
+  
+  test('should hide the message of server errors in production', async () => {
+    const originalEnv = process.env.NODE_ENV;
+    app.get('/secret', () => {
+      throw new Error('Connection string: postgres://admin:hunter2@db');
+    });
+    
+    await startServer();
+    
+    try {
+      process.env.NODE_ENV = 'production';
+      const response = await fetch(`http://localhost:${port}/secret`);
+      
+      expect(response.status).toBe(500);
+      expect(await response.text()).toBe('Internal Server Error');
+    } finally {
+      process.env.NODE_ENV = originalEnv;
+    }
+  });
+  
+  test('should hide the message of server errors', async () => {
+    const originalEnv = process.env.NODE_ENV;
+    app.get('/secret', () => {
+      throw new Error('Connection string: postgres://admin:hunter2@db');
+    });
+    
+    await startServer();
+    
+    // Only production hides them, development shows the error page
+    try {
+      process.env.NODE_ENV = 'production';
+      for (const accept of ['*/*', 'text/html', 'application/json']) {
+        const response = await fetch(`http://localhost:${port}/secret`, { headers: { Accept: accept } });
+        
+        expect(response.status).toBe(500);
+        expect(response.headers.get('content-type')).toBe('text/plain; charset=utf-8');
+        expect(await response.text()).toBe('Internal Server Error');
+      }
+    } finally {
+      process.env.NODE_ENV = originalEnv;
+    }
+  });
+  
+  test('should reply 400 to malformed JSON bodies', async () => {
+    app.use(middleware.bodyParser.json());
+    app.post('/json', (req, res) => {
+      res.json(req.body);
+    });
+    
+    let parseError: any;
+    app.use((err: any, req: Request, res: Response, next: any) => {
+      parseError = err;
+      next(err);
+    });
+    
+    await startServer();
+    
+    const response = await fetch(`http://localhost:${port}/json`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{"broken": '
+    });
+    
+    expect(response.status).toBe(400);
+    expect(parseError).toBeInstanceOf(BadRequestError);
+  });
+  
+  test('should reply with problem details when enabled', async () => {
+    app.set('problemDetails', { typeBase: 'https://example.com/problems' });
+    
+    app.get('/orders/:id', (req) => {
+      throw new NotFoundError(`Order ${req.params.id} does not exist`, { details: { orderId: req.params.id, status: 200 } });
+    });
+    
+    await startServer();
+    
+    const response = await fetch(`http://localhost:${port}/orders/42`);
+    
+    expect(response.status).toBe(404);
+    expect(response.headers.get('content-type')).toBe('application/problem+json; charset=utf-8');
+    expect(await response.json()).toEqual({
+      type: 'https://example.com/problems/404',
+      title: 'Not Found',
+      status: 404,
+      detail: 'Order 42 does not exist',
+      instance: '/orders/42',
+      orderId: '42'
+    });
+  });
+  
+  test('should hide internal problem details in production', async () => {
+    const originalEnv = process.env.NODE_ENV;
+    app.get('/internal', () => {
+      throw new HttpError(500, 'Disk /dev/sda1 is full', { details: { disk: '/dev/sda1' } });
+    });
+    app.use(middleware.errorHandler({ problemDetails: true }));
+    
+    await startServer();
+    
+    try {
+      process.env.NODE_ENV = 'production';
+      let response = await fetch(`http://localhost:${port}/internal`);
+      expect(await response.json()).toEqual({
+        type: 'about:blank',
+        title: 'Internal Server Error',
+        status: 500,
+        instance: '/internal'
+      });
+      
+      process.env.NODE_ENV = 'development';
+      response = await fetch(`http://localhost:${port}/internal`);
+      expect(await response.json()).toMatchObject({
+        detail: 'Disk /dev/sda1 is full',
+        disk: '/dev/sda1'
+      });
+    } finally {
+      process.env.NODE_ENV = originalEnv;
+    }
+  });
+  
+  test('should show a development error page to browsers', async () => {
+    app.get('/crash/:id', function crashingHandler() {
+      throw new TypeError('Cannot read properties of undefined');
+    });
+    
+    await startServer();
+    
+    const response = await fetch(`http://localhost:${port}/crash/7?verbose=1`, {
+      headers: { Accept: 'text/html', Authorization: 'Bearer secret-token' }
+    });
+    const html = await response.text();
+    
+    expect(response.status).toBe(500);
+    expect(response.headers.get('content-type')).toBe('text/html; charset=utf-8');
+    expect(html).toContain('TypeError');
+    expect(html).toContain('Cannot read properties of undefined');
+    // Source excerpt of the throwing line, read from this test file
+    expect(html).toContain('throw new TypeError(&#39;Cannot read properties of undefined&#39;);');
+    expect(html).toContain('crashingHandler');
+    expect(html).toContain('verbose');
+    expect(html).not.toContain('secret-token');
+  });
+  
+  test('should fall back to a plain 500 when the error response can\'t be sent', async () => {
+    app.get('/circular', (req) => {
+      const body: Record<string, unknown> = { name: 'loop' };
+      body.self = body;
+      req.body = body;
+      throw new Error('Boom');
+    });
+    app.get('/bigint', (req) => {
+      req.body = { id: BigInt(1) };
+      throw new Error('Boom');
+    });
+    app.get('/bad-header', () => {
+      throw Object.assign(new Error('Boom'), { headers: { 'X-Reason': 'line\nbreak' } });
+    });
+    
+    await startServer();
+    
+    for (const [pathname, accept] of [['/circular', 'application/json'], ['/bigint', 'text/html'], ['/bad-header', '*/*']]) {
+      const response = await fetch(`http://localhost:${port}${pathname}`, { headers: { Accept: accept } });
+      
+      expect(response.status).toBe(500);
+      expect(await response.text()).toBe('Internal Server Error');
+    }
+  });
+  
+  test('should send the development error report as JSON to API clients', async () => {
+    app.use((req, res, next) => next());
+    app.get('/crash', (req, res, next) => next(), function failingHandler() {
+      throw new Error('Boom');
+    });
+    
+    await startServer();
+    
+    const response = await fetch(`http://localhost:${port}/crash`, {
+      headers: { Accept: 'application/json' }
+    });
+    const report = await response.json();
+    
+    expect(response.status).toBe(500);
+    expect(report.error).toMatchObject({ name: 'Error', message: 'Boom', status: 500 });
+    expect(report.error.stack[0].source.some((line: any) => line.current && line.code.includes("throw new Error('Boom')"))).toBe(true);
+    expect(report.request).toMatchObject({ method: 'GET', url: '/crash' });
+    expect(report.handler).toEqual({ position: 3, total: 3, name: 'failingHandler', type: 'route handler' });
+  });
+  
+  test('should negotiate the response type with req.accepts', async () => {
+    app.get('/negotiate', (req, res) => {
+      res.json({
+        best: req.accepts('json', 'html'),
+        none: req.accepts('image/png'),
+        language: req.acceptsLanguages('fr', 'en'),
+        encoding: req.acceptsEncodings(['gzip', 'br'])
+      });
+    });
+    
+    await startServer();
+    
+    const response = await fetch(`http://localhost:${port}/negotiate`, {
+      headers: {
+        Accept: 'text/html, application/json;q=0.9',
+        'Accept-Language': 'en-US, fr;q=0.4',
+        'Accept-Encoding': 'gzip;q=0.5, br'
+      }
+    });
+    
+    expect(await response.json()).toEqual({ best: 'html', none: false, language: 'en', encoding: 'br' });
+  });
+  
+  test('should match the request content type with req.is', async () => {
+    app.post('/is', (req, res) => {
+      res.json({
+        json: req.is('json'),
+        wildcard: req.is('application/*'),
+        suffix: req.is('+json'),
+        html: req.is('html')
+      });
+    });
+    app.get('/is', (req, res) => {
+      res.json({ json: req.is('json') });
+    });
+    
+    await startServer();
+    
+    const post = await fetch(`http://localhost:${port}/is`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json; charset=utf-8' },
+      body: '{}'
+    });
+    expect(await post.json()).toEqual({ json: 'json', wildcard: 'application/json', suffix: 'application/json', html: false });
+    
+    // Requests without a body have no content type to match
+    const get = await fetch(`http://localhost:${port}/is`);
+    expect(await get.json()).toEqual({ json: null });
+  });
+  
+  test('should pick a handler with res.format', async () => {
+    app.get('/user', (req, res) => {
+      res.format({
+        'application/json': () => res.end(JSON.stringify({ name: 'Ada' })),
+        html: () => res.end('<h1>Ada</h1>'),
+        csv: () => res.end('name\nAda')
+      });
+    });
+    
+    await startServer();
+    
+    const html = await fetch(`http://localhost:${port}/user`, { headers: { Accept: 'text/html' } });
+    expect(html.headers.get('content-type')).toBe('text/html');
+    expect(html.headers.get('vary')).toBe('Accept');
+    expect(await html.text()).toBe('<h1>Ada</h1>');
+    
+    const csv = await fetch(`http://localhost:${port}/user`, { headers: { Accept: 'text/csv, */*;q=0.1' } });
+    expect(csv.headers.get('content-type')).toBe('text/csv');
+    expect(await csv.text()).toBe('name\nAda');
+    
+    const json = await fetch(`http://localhost:${port}/user`, { headers: { Accept: '*/*' } });
+    expect(json.headers.get('content-type')).toBe('application/json');
+  });
+  
+  test('should reply 406 when res.format finds no acceptable type', async () => {
+    app.set('problemDetails', true);
+    app.get('/report', (req, res) => {
+      res.format({
+        json: () => res.json({ ok: true })
+      });
+    });
+    app.get('/fallback', (req, res) => {
+      res.format({
+        json: () => res.json({ ok: true }),
+        default: () => res.status(200).send('fallback')
+      });
+    });
+    
+    await startServer();
+    
+    const rejected = await fetch(`http://localhost:${port}/report`, { headers: { Accept: 'image/png' } });
+    expect(rejected.status).toBe(406);
+    expect(rejected.headers.get('vary')).toBe('Accept');
+    expect(await rejected.json()).toMatchObject({ status: 406, acceptable: ['application/json'] });
+    
+    const fallback = await fetch(`http://localhost:${port}/fallback`, { headers: { Accept: 'image/png' } });
+    expect(fallback.status).toBe(200);
+    expect(await fallback.text()).toBe('fallback');
+  });
+  
+  test('should send strings, buffers and objects with res.send', async () => {
+    app.get('/text', (req, res) => {
+      res.send('héllo');
+    });
+    app.get('/buffer', (req, res) => {
+      res.send(Buffer.from([1, 2, 3]));
+    });
+    app.get('/typed', (req, res) => {
+      res.setHeader('Content-Type', 'image/png');
+      res.send(new Uint8Array([4, 5]));
+    });
+    app.get('/object', (req, res) => {
+      res.send({ ok: true });
+    });
+    app.get('/csv', (req, res) => {
+      res.setHeader('Content-Type', 'text/csv');
+      res.send('a,b');
+    });
+    app.get('/empty', (req, res) => {
+      res.send(null);
+    });
+    
+    await startServer();
+    
+    const text = await fetch(`http://localhost:${port}/text`);
+    expect(text.headers.get('content-type')).toBe('text/html; charset=utf-8');
+    expect(text.headers.get('content-length')).toBe('6');
+    expect(await text.text()).toBe('héllo');
+    
+    const buffer = await fetch(`http://localhost:${port}/buffer`);
+    expect(buffer.headers.get('content-type')).toBe('application/octet-stream');
+    expect(buffer.headers.get('content-length')).toBe('3');
+    expect(Buffer.from(await buffer.arrayBuffer())).toEqual(Buffer.from([1, 2, 3]));
+    
+    const typed = await fetch(`http://localhost:${port}/typed`);
+    expect(typed.headers.get('content-type')).toBe('image/png');
+    expect(Buffer.from(await typed.arrayBuffer())).toEqual(Buffer.from([4, 5]));
+    
+    const object = await fetch(`http://localhost:${port}/object`);
+    expect(object.headers.get('content-type')).toBe('application/json; charset=utf-8');
+    expect(await object.json()).toEqual({ ok: true });
+    
+    const csv = await fetch(`http://localhost:${port}/csv`);
+    expect(csv.headers.get('content-type')).toBe('text/csv; charset=utf-8');
+    
+    const empty = await fetch(`http://localhost:${port}/empty`);
+    expect(empty.headers.get('content-length')).toBe('0');
+    expect(await empty.text()).toBe('');
+  });
+  
+  test('should omit the body for HEAD requests and 204 responses', async () => {
+    app.get('/resource', (req, res) => {
+      res.send('resource body');
+    });
+    app.delete('/resource', (req, res) => {
+      res.status(204).send('ignored');
+    });
+    
+    await startServer();
+    
+    const head = await fetch(`http://localhost:${port}/resource`, { method: 'HEAD' });
+    expect(head.status).toBe(200);
+    expect(head.headers.get('content-length')).toBe('13');
+    expect(await head.text()).toBe('');
+    
+    const deleted = await fetch(`http://localhost:${port}/resource`, { method: 'DELETE' });
+    expect(deleted.status).toBe(204);
+    expect(deleted.headers.get('content-type')).toBeNull();
+    expect(await deleted.text()).toBe('');
+  });
+  
+  test('should answer 304 when the ETag of a response matches', async () => {
+    app.get('/status', (req, res) => {
+      res.json({ healthy: true, fresh: req.fresh });
+    });
+    
+    await startServer();
+    
+    const first = await fetch(`http://localhost:${port}/status`);
+    const etag = first.headers.get('etag')!;
+    expect(etag).toMatch(/^W\/"/);
+    expect(await first.json()).toEqual({ healthy: true, fresh: false });
+    
+    // fetch() adds Cache-Control: no-cache to conditional requests unless one is given
+    const second = await fetch(`http://localhost:${port}/status`, {
+      headers: { 'If-None-Match': etag, 'Cache-Control': 'max-age=0' }
+    });
+    expect(second.status).toBe(304);
+    expect(second.headers.get('etag')).toBe(etag);
+    expect(await second.text()).toBe('');
+    
+    const changed = await fetch(`http://localhost:${port}/status`, {
+      headers: { 'If-None-Match': '"0-stale"', 'Cache-Control': 'max-age=0' }
+    });
+    expect(changed.status).toBe(200);
+  });
+  
+  test('should follow the etag setting', async () => {
+    app.set('etag', 'strong');
+    app.get('/strong', (req, res) => {
+      res.send('strong');
+    });
+    app.get('/modified', (req, res) => {
+      res.setHeader('Last-Modified', 'Mon, 05 Oct 2026 10:00:00 GMT');
+      res.send(req.stale ? 'changed' : 'unreachable');
+    });
+    
+    await startServer();
+    
+    const strong = await fetch(`http://localhost:${port}/strong`);
+    expect(strong.headers.get('etag')).toMatch(/^"/);
+    
+    const modified = await fetch(`http://localhost:${port}/modified`, {
+      headers: { 'If-Modified-Since': 'Tue, 06 Oct 2026 10:00:00 GMT', 'Cache-Control': 'max-age=0' }
+    });
+    expect(modified.status).toBe(304);
+    
+    app.set('etag', false);
+    const disabled = await fetch(`http://localhost:${port}/strong`);
+    expect(disabled.headers.get('etag')).toBeNull();
+  });
+  
+  test('should redirect with an encoded Location and a short body', async () => {
+    app.get('/old', (req, res) => {
+      res.redirect('/new path?q=ü&done=%20');
+    });
+    app.get('/moved', (req, res) => {
+      res.redirect(301, '/permanent');
+    });
+    app.get('/back', (req, res) => {
+      res.redirect('back');
+    });
+    
+    await startServer();
+    
+    const html = await fetch(`http://localhost:${port}/old`, { redirect: 'manual', headers: { Accept: 'text/html' } });
+    expect(html.status).toBe(302);
+    expect(html.headers.get('location')).toBe('/new%20path?q=%C3%BC&done=%20');
+    expect(await html.text()).toBe('<p>Found. Redirecting to <a href="/new%20path?q=%C3%BC&amp;done=%20">/new%20path?q=%C3%BC&amp;done=%20</a></p>');
+    
+    const text = await fetch(`http://localhost:${port}/moved`, { redirect: 'manual', headers: { Accept: 'text/plain' } });
+    expect(text.status).toBe(301);
+    expect(await text.text()).toBe('Moved Permanently. Redirecting to /permanent');
+    
+    const back = await fetch(`http://localhost:${port}/back`, { redirect: 'manual', headers: { Referer: '/previous' } });
+    expect(back.headers.get('location')).toBe('/previous');
+  });
+  
+  describe('file responses', () => {
+    let dir: string;
+    
+    beforeAll(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'send-file-'));
+      fs.writeFileSync(path.join(dir, 'report.csv'), 'a,b\n1,2');
+      fs.writeFileSync(path.join(dir, '.secret'), 'hidden');
+    });
+    
+    afterAll(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+    
+    test('should send files relative to a root', async () => {
+      app.get('/files/:name', (req, res) => {
+        return res.sendFile(req.params.name, { root: dir, maxAge: 60, headers: { 'X-Served-By': 'sendFile' } });
+      });
+      app.get('/file', (req, res) => {
+        return res.sendFile(req.query.name, { root: dir });
+      });
+      
+      await startServer();
+      
+      const response = await fetch(`http://localhost:${port}/files/report.csv`);
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-type')).toBe('text/csv');
+      expect(response.headers.get('content-length')).toBe('7');
+      expect(response.headers.get('cache-control')).toBe('public, max-age=60');
+      expect(response.headers.get('x-served-by')).toBe('sendFile');
+      expect(await response.text()).toBe('a,b\n1,2');
+      
+      const missing = await fetch(`http://localhost:${port}/files/missing.txt`);
+      expect(missing.status).toBe(404);
+      
+      const dotfile = await fetch(`http://localhost:${port}/files/.secret`);
+      expect(dotfile.status).toBe(404);
+      
+      const traversal = await fetch(`http://localhost:${port}/file?name=../../etc/passwd`);
+      expect(traversal.status).toBe(403);
+    });
+    
+    test('should only answer GET and HEAD requests with a success status with 304', async () => {
+      app.get('/report', (req, res) => {
+        return res.sendFile('report.csv', { root: dir });
+      });
+      app.get('/not-found', (req, res) => {
+        return res.status(404).sendFile('report.csv', { root: dir });
+      });
+      app.post('/report', (req, res) => {
+        return res.sendFile('report.csv', { root: dir });
+      });
+      
+      await startServer();
+      
+      const { headers } = await fetch(`http://localhost:${port}/report`);
+      const conditional = { 'If-None-Match': headers.get('etag')!, 'Cache-Control': 'max-age=0' };
+      
+      expect((await fetch(`http://localhost:${port}/report`, { headers: conditional })).status).toBe(304);
+      
+      const notFound = await fetch(`http://localhost:${port}/not-found`, { headers: conditional });
+      expect(notFound.status).toBe(404);
+      expect(await notFound.text()).toBe('a,b\n1,2');
+      
+      const post = await fetch(`http://localhost:${port}/report`, { method: 'POST', headers: conditional });
+      expect(post.status).toBe(200);
+      expect(await post.text()).toBe('a,b\n1,2');
+    });
+    
+    test('should send downloads with an RFC 6266 Content-Disposition', async () => {
+      app.get('/download', (req, res) => {
+        return res.download(path.join(dir, 'report.csv'), 'Résumé €.csv');
+      });
+      app.get('/attachment', (req, res) => {
+        res.attachment('data.json').send('{}');
+      });
+      
+      await startServer();
+      
+      const download = await fetch(`http://localhost:${port}/download`);
+      expect(download.headers.get('content-disposition')).toBe(`attachment; filename="Resume ?.csv"; filename*=UTF-8''R%C3%A9sum%C3%A9%20%E2%82%AC.csv`);
+      expect(download.headers.get('content-type')).toBe('text/csv');
+      expect(await download.text()).toBe('a,b\n1,2');
+      
+      const attachment = await fetch(`http://localhost:${port}/attachment`);
+      expect(attachment.headers.get('content-disposition')).toBe('attachment; filename="data.json"');
+      expect(attachment.headers.get('content-type')).toBe('application/json; charset=utf-8');
+    });
+  });
 });
-
@@ -0,0 +1,94 @@
+import { middleware } from '../index';
+import { useTestServer } from './testServer';
+
+describe('Request logger', () => {
+  const server = useTestServer();
+  
+  const capture = () => {
+    const lines: string[] = [];
+    return { lines, stream: { write: (line: string) => lines.push(line) } };
+  };
+  
+  test('should build lines from tokens', async () => {
+    const { lines, stream } = capture();
+    server.app.use(middleware.logger({
+      format: ':method :url :status :res-content-length :res[content-type] :req[x-client] :request-id :http-version :referrer ":user-agent" :response-time[1] :total-time[0] :date[iso] :unknown',
+      tokens: { 'request-id': req => req.headers['x-request-id'] as string | undefined },
+      stream
+    }));
+    // Tokens of one logger aren't seen by others
+    server.app.use(middleware.logger({ format: ':method :request-id', stream }));
+    server.app.get('/items', (req, res) => {
+      res.json({ ok: true });
+    });
+    
+    await server.start();
+    
+    await fetch(`http://localhost:${server.port}/items`, {
+      headers: { 'X-Client': 'cli', 'X-Request-Id': 'abc123', 'User-Agent': 'tests/1.0' }
+    });
+    
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toMatch(new RegExp(
+      '^GET /items 200 11 application/json; charset=utf-8 cli abc123 1\\.1 - "tests/1\\.0" \\d+\\.\\d \\d+ \\d{4}-\\d{2}-\\d{2}T[\\d:.]+Z :unknown\\n$'
+    ));
+    expect(lines[1]).toBe('GET :request-id\n');
+  });
+  
+  test('should register global tokens and formats and write to stdout by default', async () => {
+    const write = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    middleware.logger
+      .token('client', req => req.headers['x-client'] as string | undefined)
+      .format('client', ':client :method :url');
+    server.app.use(middleware.logger({ format: 'client' }));
+    server.app.get('/items', (req, res) => {
+      res.send('ok');
+    });
+    
+    await server.start();
+    
+    try {
+      await fetch(`http://localhost:${server.port}/items`, { headers: { 'X-Client': 'cli' } });
+      expect(write).toHaveBeenCalledWith('cli GET /items\n');
+    } finally {
+      write.mockRestore();
+    }
+  });
+  
+  test('should provide predefined formats', async () => {
+    const { lines, stream } = capture();
+    server.app.use(middleware.logger({ format: 'combined', stream }));
+    server.app.use(middleware.logger({ format: 'tiny', stream }));
+    server.app.use(middleware.logger({ format: 'dev', stream }));
+    server.app.get('/missing', (req, res) => {
+      res.status(404).send('nope');
+    });
+    
+    await server.start();
+    
+    const credentials = Buffer.from('ada:secret').toString('base64');
+    await fetch(`http://localhost:${server.port}/missing`, {
+      headers: { Authorization: `Basic ${credentials}`, Referer: 'http://example.com/', 'User-Agent': 'tests/1.0' }
+    });
+    
+    expect(lines[0]).toMatch(/^\S+ - ada \[\d{2}\/\w{3}\/\d{4}:\d{2}:\d{2}:\d{2} \+0000\] "GET \/missing HTTP\/1\.1" 404 4 "http:\/\/example\.com\/" "tests\/1\.0"\n$/);
+    expect(lines[1]).toMatch(/^GET \/missing 404 4 - \d+\.\d{3} ms\n$/);
+    expect(lines[2]).toMatch(/^GET \/missing \x1b\[33m404\x1b\[0m \d+\.\d{3} ms - 4\n$/);
+  });
+  
+  test('should log immediately or skip requests', async () => {
+    const { lines, stream } = capture();
+    server.app.use(middleware.logger({ format: ':method :url :status', immediate: true, stream }));
+    server.app.use(middleware.logger({ format: 'errors :url :status', skip: (req, res) => res.statusCode < 400, stream }));
+    server.app.get('/ok', (req, res) => {
+      res.send('ok');
+    });
+    
+    await server.start();
+    
+    await fetch(`http://localhost:${server.port}/ok`);
+    await fetch(`http://localhost:${server.port}/missing`);
+    
+    expect(lines).toEqual(['GET /ok -\n', 'GET /missing -\n', 'errors /missing 404\n']);
+  });
+});
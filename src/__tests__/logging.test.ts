@@ -0,0 +1,182 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonLogger, StdoutTransport, FileTransport, MemoryTransport } from '../logging';
+import { NotFoundError } from '../index';
+import { useTestServer } from './testServer';
+
+describe('JsonLogger', () => {
+  test('should write JSON lines at or above its level', () => {
+    const lines: string[] = [];
+    const logger = new JsonLogger({ level: 'warn', transports: [new StdoutTransport({ write: (line: string) => lines.push(line) })] });
+
+    logger.info('Ignored');
+    logger.warn('Disk almost full', { free: 1024 });
+    logger.fatal('Out of memory');
+
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toMatch(/^\{"level":"warn","time":"[^"]+","msg":"Disk almost full","free":1024\}\n$/);
+    expect(JSON.parse(lines[1])).toMatchObject({ level: 'fatal', msg: 'Out of memory' });
+
+    logger.level = 'trace';
+    expect(logger.isLevelEnabled('trace')).toBe(true);
+    logger.trace('Now visible');
+    expect(lines).toHaveLength(3);
+    expect(() => new JsonLogger({ level: 'verbose' as any })).toThrow(TypeError);
+  });
+
+  test('should bind fields in child loggers', () => {
+    const logs = new MemoryTransport();
+    const logger = new JsonLogger({ transports: [logs], bindings: { service: 'api' } });
+    const child = logger.child({ requestId: 'abc' }).child({ route: '/users/:id' });
+
+    child.info('Loaded', { userId: 7 });
+    logger.level = 'error';
+    child.info('Dropped, the level is shared');
+
+    expect(logs.records).toEqual([
+      { level: 'info', time: expect.any(String), msg: 'Loaded', service: 'api', requestId: 'abc', route: '/users/:id', userId: 7 }
+    ]);
+    logs.clear();
+    expect(logs.records).toEqual([]);
+  });
+
+  test('should redact configured paths without changing the logged objects', () => {
+    const logs = new MemoryTransport();
+    const logger = new JsonLogger({ transports: [logs], redact: ['headers.authorization', '*.password', 'token'], censor: '***' });
+    const headers = { authorization: 'Bearer secret', accept: '*/*' };
+
+    logger.info('Request', { headers, user: { name: 'ada', password: 'hunter2' }, token: 't0k3n' });
+
+    expect(logs.records[0]).toMatchObject({
+      headers: { authorization: '***', accept: '*/*' },
+      user: { name: 'ada', password: '***' },
+      token: '***'
+    });
+    expect(headers.authorization).toBe('Bearer secret');
+  });
+
+  test('should serialize errors, bigints and circular references', () => {
+    const logs = new MemoryTransport();
+    const logger = new JsonLogger({ transports: [logs] });
+    const err = Object.assign(new Error('Connection refused'), { code: 'ECONNREFUSED' });
+    const shared = { id: 1 };
+    const circular: Record<string, unknown> = { name: 'loop', shared, again: shared };
+    circular.self = circular;
+
+    logger.error('Query failed', err);
+    logger.info('State', { circular, big: BigInt(2) ** BigInt(64) });
+
+    expect(logs.records[0].err).toMatchObject({ type: 'Error', message: 'Connection refused', code: 'ECONNREFUSED' });
+    expect((logs.records[0].err as { stack: string }).stack).toContain('Connection refused');
+    expect(logs.records[1]).toMatchObject({
+      circular: { name: 'loop', shared: { id: 1 }, again: { id: 1 }, self: '[Circular]' },
+      big: '18446744073709551616'
+    });
+  });
+});
+
+describe('FileTransport', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'file-transport-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should append lines and rotate files by size', () => {
+    const file = path.join(dir, 'logs', 'app.log');
+    const transport = new FileTransport({ path: file, maxSize: 20, maxFiles: 2 });
+
+    // Each line takes 10 bytes with its newline, so two fit in a file
+    ['line-0001', 'line-0002', 'line-0003', 'line-0004', 'line-0005', 'line-0006', 'line-0007'].forEach(line => transport.write(line));
+    transport.close();
+
+    expect(fs.readFileSync(file, 'utf8')).toBe('line-0007\n');
+    expect(fs.readFileSync(`${file}.1`, 'utf8')).toBe('line-0005\nline-0006\n');
+    expect(fs.readFileSync(`${file}.2`, 'utf8')).toBe('line-0003\nline-0004\n');
+    expect(fs.existsSync(`${file}.3`)).toBe(false);
+
+    // A new transport continues the existing file
+    const reopened = new FileTransport({ path: file, maxSize: 20, maxFiles: 2 });
+    reopened.write('line-0008');
+    reopened.write('line-0009');
+    reopened.close();
+    expect(fs.readFileSync(file, 'utf8')).toBe('line-0009\n');
+    expect(fs.readFileSync(`${file}.1`, 'utf8')).toBe('line-0007\nline-0008\n');
+  });
+});
+
+describe('Application logger', () => {
+  const server = useTestServer();
+
+  test('should bind request loggers to the request id and route', async () => {
+    const logs = new MemoryTransport();
+    server.app.set('logger', new JsonLogger({ transports: [logs], redact: ['headers.authorization'] }));
+    server.app.get('/users/:id', (req, res) => {
+      req.log.info('Loading user', { headers: req.headers });
+      res.json({ id: req.params.id, requestId: req.id });
+    });
+    server.app.get('/fail', () => {
+      throw new Error('Database is down');
+    });
+
+    await server.start();
+
+    const response = await fetch(`http://localhost:${server.port}/users/42`, {
+      headers: { 'X-Request-Id': 'abc123', Authorization: 'Bearer secret' }
+    });
+    expect(await response.json()).toEqual({ id: '42', requestId: 'abc123' });
+    await fetch(`http://localhost:${server.port}/fail`);
+
+    const [started, loaded, failed] = logs.records;
+    expect(started).toMatchObject({ level: 'info', msg: `Server is running on http://localhost:${server.port}`, port: server.port });
+    expect(loaded).toMatchObject({
+      level: 'info',
+      msg: 'Loading user',
+      requestId: 'abc123',
+      method: 'GET',
+      url: '/users/42',
+      route: '/users/:id',
+      headers: { authorization: '[Redacted]', 'x-request-id': 'abc123' }
+    });
+    expect(loaded.time).toMatch(/^\d{4}-\d{2}-\d{2}T[\d:.]+Z$/);
+
+    // Requests without an X-Request-Id get a generated one
+    expect(failed).toMatchObject({ level: 'error', status: 500, route: '/fail', err: { type: 'Error', message: 'Database is down' } });
+    expect(failed.requestId).toMatch(/^[0-9a-f-]{36}$/);
+    expect((failed.err as { stack: string }).stack).toContain('Database is down');
+  });
+
+  test('should accept a custom logger object', async () => {
+    const calls: Array<[string, string, unknown]> = [];
+    const record = (level: string) => (message: string, fields?: unknown) => {
+      calls.push([level, message, fields]);
+    };
+    server.app.set('logger', {
+      trace: record('trace'),
+      debug: record('debug'),
+      info: record('info'),
+      warn: record('warn'),
+      error: record('error'),
+      fatal: record('fatal')
+    });
+    server.app.get('/missing', () => {
+      throw new NotFoundError('No such page');
+    });
+
+    await server.start();
+
+    await fetch(`http://localhost:${server.port}/missing`);
+
+    // Without child(), request loggers are the logger itself
+    expect(calls).toEqual([
+      ['info', `Server is running on http://localhost:${server.port}`, { port: server.port }],
+      ['warn', '404 GET /missing: No such page', { status: 404 }]
+    ]);
+    expect(server.app.logger).toBe(server.app.getSetting('logger'));
+  });
+});
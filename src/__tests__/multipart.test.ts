@@ -0,0 +1,175 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MultipartParser, parseContentDisposition } from '../multipart';
+import { middleware } from '../index';
+import { useTestServer } from './testServer';
+
+describe('Multipart parsing', () => {
+  const body = [
+    'preamble to ignore',
+    '--XyZ',
+    'Content-Disposition: form-data; name="title"',
+    '',
+    'Hello\r\n--Xy is not a boundary',
+    '--XyZ',
+    'Content-Disposition: form-data; name="doc"; filename="a.txt"',
+    'Content-Type: text/plain',
+    '',
+    'file contents',
+    '--XyZ--',
+    'epilogue'
+  ].join('\r\n');
+
+  const parse = (chunks: Buffer[]) => {
+    const parts: { headers: Record<string, string>; data: string }[] = [];
+    const parser = new MultipartParser('XyZ', {
+      onPartBegin: headers => parts.push({ headers, data: '' }),
+      onPartData: (data) => { parts[parts.length - 1].data += data.toString(); },
+      onPartEnd: () => undefined
+    });
+    chunks.forEach(chunk => parser.write(chunk));
+    parser.end();
+    return parts;
+  };
+
+  test('should parse parts regardless of how the body is chunked', () => {
+    const buffer = Buffer.from(body);
+    const expected = [
+      { headers: { 'content-disposition': 'form-data; name="title"' }, data: 'Hello\r\n--Xy is not a boundary' },
+      {
+        headers: { 'content-disposition': 'form-data; name="doc"; filename="a.txt"', 'content-type': 'text/plain' },
+        data: 'file contents'
+      }
+    ];
+
+    expect(parse([buffer])).toEqual(expected);
+
+    // One byte at a time splits every boundary
+    const bytes = Array.from(buffer, byte => Buffer.from([byte]));
+    expect(parse(bytes)).toEqual(expected);
+  });
+
+  test('should reject bodies without a closing boundary', () => {
+    expect(() => parse([Buffer.from('--XyZ\r\nContent-Disposition: form-data; name="a"\r\n\r\nvalue')]))
+      .toThrow('Unexpected end of multipart data');
+  });
+
+  test('should read field and file names from Content-Disposition', () => {
+    expect(parseContentDisposition('form-data; name="field"')).toEqual({ name: 'field', filename: undefined });
+    expect(parseContentDisposition('form-data; name="doc"; filename="C:\\Users\\ada\\report \\"final\\".pdf"'))
+      .toEqual({ name: 'doc', filename: 'report "final".pdf' });
+    expect(parseContentDisposition('form-data; name=doc; filename="x.txt"; filename*=UTF-8\'\'%E2%82%AC%20rates.txt'))
+      .toEqual({ name: 'doc', filename: '€ rates.txt' });
+  });
+});
+
+describe('Multipart middleware', () => {
+  const server = useTestServer();
+
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'uploads-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should stream files to disk and parse fields', async () => {
+    server.app.use(middleware.bodyParser.multipart({ dest: dir }));
+    server.app.post('/upload', (req, res) => {
+      res.json({
+        body: req.body,
+        files: req.files.map(file => ({
+          fieldName: file.fieldName,
+          originalName: file.originalName,
+          mimeType: file.mimeType,
+          size: file.size,
+          content: fs.readFileSync(file.path!, 'utf8'),
+          inDest: path.dirname(file.path!) === dir
+        }))
+      });
+    });
+
+    await server.start();
+
+    const form = new FormData();
+    form.append('title', 'Holiday');
+    form.append('tags', 'beach');
+    form.append('tags', 'sun');
+    form.append('photo', new Blob(['x'.repeat(100000)], { type: 'image/png' }), 'beach.png');
+    form.append('notes', new Blob(['hello']), 'notes.txt');
+
+    const response = await fetch(`http://localhost:${server.port}/upload`, { method: 'POST', body: form });
+    const result = await response.json();
+
+    expect(result.body).toEqual({ title: 'Holiday', tags: ['beach', 'sun'] });
+    expect(result.files).toEqual([
+      { fieldName: 'photo', originalName: 'beach.png', mimeType: 'image/png', size: 100000, content: 'x'.repeat(100000), inDest: true },
+      { fieldName: 'notes', originalName: 'notes.txt', mimeType: 'application/octet-stream', size: 5, content: 'hello', inDest: true }
+    ]);
+  });
+
+  test('should answer 413 and remove stored files when a limit is exceeded', async () => {
+    server.app.use(middleware.bodyParser.multipart({ dest: dir, limits: { fileSize: 1024, fieldSize: 10, files: 1 } }));
+    server.app.post('/upload', (req, res) => {
+      res.send('uploaded');
+    });
+
+    await server.start();
+
+    const upload = async (fill: (form: FormData) => void) => {
+      const form = new FormData();
+      fill(form);
+      return fetch(`http://localhost:${server.port}/upload`, { method: 'POST', body: form });
+    };
+
+    const tooLarge = await upload(form => form.append('file', new Blob(['x'.repeat(2048)]), 'big.bin'));
+    expect(tooLarge.status).toBe(413);
+
+    const longField = await upload(form => form.append('comment', 'far too long for the limit'));
+    expect(longField.status).toBe(413);
+
+    const tooMany = await upload((form) => {
+      form.append('a', new Blob(['first']), 'a.txt');
+      form.append('b', new Blob(['second']), 'b.txt');
+    });
+    expect(tooMany.status).toBe(413);
+
+    // Nothing is left behind by the failed uploads
+    expect(fs.readdirSync(dir)).toEqual([]);
+
+    const ok = await upload(form => form.append('file', new Blob(['small']), 'small.txt'));
+    expect(await ok.text()).toBe('uploaded');
+  });
+
+  test('should pass files to a custom storage engine', async () => {
+    const stored: string[] = [];
+    server.app.use(middleware.bodyParser.multipart({
+      storage: {
+        async handleFile(file, stream) {
+          const chunks: Buffer[] = [];
+          for await (const chunk of stream) {
+            chunks.push(chunk);
+          }
+          stored.push(Buffer.concat(chunks).toString());
+          return { key: `memory/${file.originalName}` };
+        }
+      }
+    }));
+    server.app.post('/upload', (req, res) => {
+      res.json(req.files.map(file => file.key));
+    });
+
+    await server.start();
+
+    const form = new FormData();
+    form.append('doc', new Blob(['in memory']), 'doc.txt');
+    const response = await fetch(`http://localhost:${server.port}/upload`, { method: 'POST', body: form });
+
+    expect(await response.json()).toEqual(['memory/doc.txt']);
+    expect(stored).toEqual(['in memory']);
+  });
+});
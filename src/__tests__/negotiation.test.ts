@@ -0,0 +1,54 @@
+import {
+  matchesMediaType,
+  preferredCharsets,
+  preferredEncodings,
+  preferredLanguages,
+  preferredMediaTypes
+} from '../negotiation';
+
+describe('Content negotiation', () => {
+  test('should order media types by quality and specificity', () => {
+    const accept = 'text/*;q=0.5, application/json, text/html;q=0.8, */*;q=0.1';
+
+    expect(preferredMediaTypes(accept)).toEqual(['application/json', 'text/html', 'text/*', '*/*']);
+    expect(preferredMediaTypes(accept, ['text/plain', 'text/html', 'image/png', 'application/json']))
+      .toEqual(['application/json', 'text/html', 'text/plain', 'image/png']);
+  });
+
+  test('should let the most specific range decide the quality', () => {
+    // text/html is refused even though text/* is acceptable
+    expect(preferredMediaTypes('text/*, text/html;q=0', ['text/html', 'text/plain'])).toEqual(['text/plain']);
+    expect(preferredMediaTypes('application/json', ['text/html'])).toEqual([]);
+  });
+
+  test('should accept everything when the header is missing', () => {
+    expect(preferredMediaTypes(undefined, ['text/html', 'application/json'])).toEqual(['text/html', 'application/json']);
+    expect(preferredLanguages(undefined, ['en', 'fr'])).toEqual(['en', 'fr']);
+    expect(preferredCharsets(undefined, ['utf-8'])).toEqual(['utf-8']);
+  });
+
+  test('should treat identity as acceptable unless refused', () => {
+    expect(preferredEncodings(undefined)).toEqual(['identity']);
+    expect(preferredEncodings('gzip;q=0.8, br', ['identity', 'gzip', 'br'])).toEqual(['br', 'gzip', 'identity']);
+    expect(preferredEncodings('gzip, identity;q=0', ['identity'])).toEqual([]);
+    expect(preferredEncodings('*;q=0, gzip', ['identity', 'gzip'])).toEqual(['gzip']);
+    // Ties follow the header, or the server's order when asked to
+    expect(preferredEncodings('gzip, deflate, br', ['br', 'gzip', 'deflate'])).toEqual(['gzip', 'deflate', 'br']);
+    expect(preferredEncodings('gzip, deflate, br', ['br', 'gzip', 'deflate'], true)).toEqual(['br', 'gzip', 'deflate']);
+    expect(preferredEncodings('gzip, br;q=0.5', ['br', 'gzip'], true)).toEqual(['gzip', 'br']);
+  });
+
+  test('should match languages on their primary tag', () => {
+    expect(preferredLanguages('en-US, fr;q=0.5', ['fr', 'en', 'de'])).toEqual(['en', 'fr']);
+    expect(preferredLanguages('en', ['en-GB', 'de'])).toEqual(['en-GB']);
+  });
+
+  test('should match media types with wildcards and suffixes', () => {
+    expect(matchesMediaType('application/json; charset=utf-8', 'application/json')).toBe(true);
+    expect(matchesMediaType('text/plain', 'text/*')).toBe(true);
+    expect(matchesMediaType('application/vnd.api+json', '+json')).toBe(true);
+    expect(matchesMediaType('application/vnd.api+json', 'application/*+json')).toBe(true);
+    expect(matchesMediaType('text/html', 'application/*')).toBe(false);
+    expect(matchesMediaType('not a type', '*/*')).toBe(false);
+  });
+});
@@ -0,0 +1,80 @@
+import { RouteTree } from '../RouteTree';
+
+describe('RouteTree', () => {
+  let tree: RouteTree<string>;
+  
+  beforeEach(() => {
+    tree = new RouteTree<string>();
+  });
+  
+  test('should match static routes', () => {
+    tree.insert('GET', '/', 'root');
+    tree.insert('GET', '/users', 'users');
+    tree.insert('GET', '/user', 'user');
+    
+    expect(tree.lookup('GET', '/')?.value).toBe('root');
+    expect(tree.lookup('GET', '/users')?.value).toBe('users');
+    expect(tree.lookup('GET', '/user')?.value).toBe('user');
+    expect(tree.lookup('GET', '/use')).toBeNull();
+  });
+  
+  test('should extract params in a single lookup', () => {
+    tree.insert('GET', '/users/:userId/posts/:postId', 'post');
+    
+    expect(tree.lookup('GET', '/users/123/posts/456')).toEqual({
+      value: 'post',
+      params: { userId: '123', postId: '456' }
+    });
+  });
+  
+  test('should prefer static segments over params', () => {
+    tree.insert('GET', '/users/:id', 'param');
+    tree.insert('GET', '/users/me', 'static');
+    
+    expect(tree.lookup('GET', '/users/me')?.value).toBe('static');
+    expect(tree.lookup('GET', '/users/mel')).toEqual({ value: 'param', params: { id: 'mel' } });
+  });
+  
+  test('should backtrack into params when the static branch dead-ends', () => {
+    tree.insert('GET', '/users/me/settings', 'settings');
+    tree.insert('GET', '/users/:id/posts', 'posts');
+    
+    expect(tree.lookup('GET', '/users/me/posts')).toEqual({ value: 'posts', params: { id: 'me' } });
+  });
+  
+  test('should match by method', () => {
+    tree.insert('GET', '/items/latest', 'get-latest');
+    tree.insert('POST', '/items/:id', 'post-item');
+    
+    expect(tree.lookup('POST', '/items/latest')).toEqual({ value: 'post-item', params: { id: 'latest' } });
+    expect(tree.lookup('DELETE', '/items/latest')).toBeNull();
+  });
+  
+  test('should ignore trailing slashes', () => {
+    tree.insert('GET', '/about/', 'about');
+    
+    expect(tree.lookup('GET', '/about')?.value).toBe('about');
+    expect(tree.lookup('GET', '/about/')?.value).toBe('about');
+  });
+  
+  test('should support static text after a param in the same segment', () => {
+    tree.insert('GET', '/files/:name.json', 'json');
+    
+    expect(tree.lookup('GET', '/files/report.v2.json')).toEqual({ value: 'json', params: { name: 'report.v2' } });
+    expect(tree.lookup('GET', '/files/report.txt')).toBeNull();
+  });
+  
+  test('should not match params against empty segments', () => {
+    tree.insert('GET', '/users/:id/profile', 'profile');
+    
+    expect(tree.lookup('GET', '/users//profile')).toBeNull();
+  });
+  
+  test('should keep the first registration for duplicate routes', () => {
+    expect(tree.insert('GET', '/dup', 'first')).toBe(true);
+    expect(tree.insert('GET', '/dup', 'second')).toBe(false);
+    
+    expect(tree.lookup('GET', '/dup')?.value).toBe('first');
+    expect(tree.count).toBe(1);
+  });
+});
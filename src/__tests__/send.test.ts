@@ -0,0 +1,22 @@
+import { parseRange } from '../send';
+
+describe('File sending helpers', () => {
+  test('should parse and merge byte ranges', () => {
+    expect(parseRange(100, 'bytes=0-49')).toEqual([{ start: 0, end: 49 }]);
+    expect(parseRange(100, 'bytes=90-')).toEqual([{ start: 90, end: 99 }]);
+    expect(parseRange(100, 'bytes=-10')).toEqual([{ start: 90, end: 99 }]);
+    expect(parseRange(100, 'bytes=50-500')).toEqual([{ start: 50, end: 99 }]);
+    // Overlapping and adjacent ranges are combined
+    expect(parseRange(100, 'bytes=40-60, 0-9, 10-19, 50-70')).toEqual([{ start: 0, end: 19 }, { start: 40, end: 70 }]);
+  });
+
+  test('should tell unsatisfiable ranges from malformed ones', () => {
+    expect(parseRange(100, 'bytes=100-200')).toEqual([]);
+    expect(parseRange(0, 'bytes=0-')).toEqual([]);
+    expect(parseRange(100, 'bytes=-0')).toEqual([]);
+    expect(parseRange(100, 'bytes=20-10')).toBeUndefined();
+    expect(parseRange(100, 'items=0-1')).toBeUndefined();
+    expect(parseRange(100, 'bytes=a-b')).toBeUndefined();
+    expect(parseRange(1000, 'bytes=' + Array.from({ length: 60 }, (_, i) => `${i * 10}-${i * 10}`).join(','))).toBeUndefined();
+  });
+});
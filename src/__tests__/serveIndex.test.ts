@@ -0,0 +1,79 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { middleware } from '../index';
+import { useTestServer } from './testServer';
+
+describe('serveIndex middleware', () => {
+  const server = useTestServer();
+  
+  let dir: string;
+  
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'serve-index-'));
+  });
+  
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+  
+  test('should list directories', async () => {
+    const artifacts = path.join(dir, 'artifacts');
+    fs.mkdirSync(path.join(artifacts, 'v1.0'), { recursive: true });
+    fs.mkdirSync(path.join(artifacts, '.cache'), { recursive: true });
+    fs.writeFileSync(path.join(artifacts, 'build.zip'), 'x'.repeat(2048));
+    fs.writeFileSync(path.join(artifacts, 'notes <draft>.txt'), 'hi');
+    fs.writeFileSync(path.join(artifacts, '.env'), 'SECRET=1');
+    fs.writeFileSync(path.join(artifacts, 'v1.0', 'app.tar'), 'tar');
+    
+    server.app.use(middleware.serveIndex(artifacts, { filter: entry => !entry.name.endsWith('.tar') }));
+    
+    await server.start();
+    
+    const get = (pathname: string, accept: string) =>
+      fetch(`http://localhost:${server.port}${pathname}`, { headers: { Accept: accept } });
+    
+    const json = await get('/', 'application/json');
+    const entries = await json.json();
+    expect(entries.map((entry: any) => entry.name)).toEqual(['v1.0', 'build.zip', 'notes <draft>.txt']);
+    expect(entries[1]).toEqual({
+      name: 'build.zip',
+      type: 'file',
+      size: 2048,
+      mtime: expect.stringMatching(/^\d{4}-/),
+      mimeType: 'application/zip'
+    });
+    
+    const bySize = await (await get('/?sort=size&order=desc', 'application/json')).json();
+    expect(bySize.map((entry: any) => entry.name)).toEqual(['v1.0', 'build.zip', 'notes <draft>.txt']);
+    const byName = await (await get('/?sort=name&order=desc', 'application/json')).json();
+    expect(byName.map((entry: any) => entry.name)).toEqual(['v1.0', 'notes <draft>.txt', 'build.zip']);
+    
+    const html = await get('/', 'text/html');
+    expect(html.headers.get('content-type')).toBe('text/html; charset=utf-8');
+    const page = await html.text();
+    expect(page).toContain('<title>Index of /</title>');
+    expect(page).toContain('<a href="/v1.0/">v1.0/</a>');
+    expect(page).toContain('<a href="/notes%20%3Cdraft%3E.txt">notes &lt;draft&gt;.txt</a>');
+    expect(page).toContain('2.0 kB');
+    expect(page).toContain('📦');
+    expect(page).not.toContain('.env');
+    
+    expect(await (await get('/', 'text/plain')).text()).toBe('v1.0/\nbuild.zip\nnotes <draft>.txt\n');
+    expect(await (await get('/v1.0/', 'text/plain')).text()).toBe('');
+    expect(await (await get('/v1.0', 'text/html')).text()).toContain('<a href="/">../</a>');
+    
+    // Hidden directories, traversal and missing paths are not listed
+    expect((await get('/.cache/', 'text/plain')).status).toBe(404);
+    // fetch would resolve the dot segments before sending
+    const traversal = await new Promise<number | undefined>((resolve, reject) => {
+      http.get({ port: server.port, path: '/%2e%2e/' }, (res) => {
+        res.resume();
+        resolve(res.statusCode);
+      }).on('error', reject);
+    });
+    expect(traversal).toBe(403);
+    expect((await get('/missing/', 'text/plain')).status).toBe(404);
+  });
+});
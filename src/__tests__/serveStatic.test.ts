@@ -2,8 +2,12 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import { Readable, Writable } from 'stream';
+import * as http from 'http';
+import * as zlib from 'zlib';
 import { serveStatic } from '../middleware.js';
 import { Request, Response } from '../Application.js';
+import { middleware } from '../index.js';
+import { useTestServer } from './testServer.js';
 
 describe('serveStatic middleware', () => {
   let tempDir: string;
@@ -247,8 +251,13 @@ describe('serveStatic middleware', () => {
       read() {} // Required implementation
     });
     
-    // Mock createReadStream to return our controlled stream
-    jest.spyOn(fs, 'createReadStream').mockImplementationOnce((_path: any, _options: any) => {
+    // Mock createReadStream to return our controlled stream. The namespace
+    // import can't be spied on, so spy on the module object itself.
+    jest.spyOn(require('fs') as typeof fs, 'createReadStream').mockImplementationOnce((_path: any, _options: any) => {
+      // Emit the error on the next tick to ensure middleware has time to set up handlers
+      process.nextTick(() => {
+        mockStream.emit('error', new Error('Read error'));
+      });
       return mockStream as unknown as fs.ReadStream;
     });
     
@@ -256,16 +265,8 @@ describe('serveStatic middleware', () => {
     const req = createMockRequest('/test.txt');
     const res = createMockResponse();
     
-    // Start the middleware
-    const middlewarePromise = middleware(req, res, nextMock);
-    
-    // Emit the error on the next tick to ensure middleware has time to set up handlers
-    process.nextTick(() => {
-      mockStream.emit('error', new Error('Read error'));
-    });
-    
-    // Wait for middleware to complete
-    await middlewarePromise;
+    // The middleware resolves once the file was sent or the error passed on
+    await middleware(req, res, nextMock);
     
     // The error should be passed to next
     expect(nextMock).toHaveBeenCalledWith(expect.any(Error));
@@ -275,3 +276,236 @@ describe('serveStatic middleware', () => {
   });
 });
 
+describe('serveStatic over HTTP', () => {
+  const server = useTestServer();
+  
+  let dir: string;
+  
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'serve-static-'));
+    fs.writeFileSync(path.join(dir, 'report.csv'), 'a,b\n1,2');
+    fs.writeFileSync(path.join(dir, 'clip.mp4'), '0123456789abcdefghij');
+    fs.writeFileSync(path.join(dir, 'app.js'), 'console.log("app");');
+    fs.writeFileSync(path.join(dir, 'app.js.br'), zlib.brotliCompressSync('console.log("app");'));
+    fs.writeFileSync(path.join(dir, 'app.js.gz'), zlib.gzipSync('console.log("app");'));
+    fs.writeFileSync(path.join(dir, 'style.css'), 'body {}');
+    fs.writeFileSync(path.join(dir, 'style.css.gz'), zlib.gzipSync('body {}'));
+  });
+  
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+  
+  test('should answer range requests for static files', async () => {
+    server.app.use(middleware.serveStatic(dir));
+    
+    await server.start();
+    
+    const get = (headers: Record<string, string>) => fetch(`http://localhost:${server.port}/clip.mp4`, { headers });
+    
+    const full = await get({});
+    expect(full.headers.get('accept-ranges')).toBe('bytes');
+    expect(await full.text()).toBe('0123456789abcdefghij');
+    
+    const single = await get({ Range: 'bytes=5-9' });
+    expect(single.status).toBe(206);
+    expect(single.headers.get('content-range')).toBe('bytes 5-9/20');
+    expect(single.headers.get('content-length')).toBe('5');
+    expect(await single.text()).toBe('56789');
+    
+    const suffix = await get({ Range: 'bytes=-3' });
+    expect(await suffix.text()).toBe('hij');
+    
+    const multi = await get({ Range: 'bytes=0-1, 18-' });
+    expect(multi.status).toBe(206);
+    const type = multi.headers.get('content-type')!;
+    const boundary = type.split('boundary=')[1];
+    expect(type).toBe(`multipart/byteranges; boundary=${boundary}`);
+    const body = await multi.text();
+    expect(body).toBe([
+      `--${boundary}`, 'Content-Type: video/mp4', 'Content-Range: bytes 0-1/20', '', '01',
+      `--${boundary}`, 'Content-Type: video/mp4', 'Content-Range: bytes 18-19/20', '', 'ij',
+      `--${boundary}--`, ''
+    ].join('\r\n'));
+    expect(multi.headers.get('content-length')).toBe(String(Buffer.byteLength(body)));
+    
+    const unsatisfiable = await get({ Range: 'bytes=50-60' });
+    expect(unsatisfiable.status).toBe(416);
+    expect(unsatisfiable.headers.get('content-range')).toBe('bytes */20');
+    
+    // Malformed ranges are ignored
+    expect((await get({ Range: 'bytes=9-5' })).status).toBe(200);
+    
+    // If-Range only allows the range while the file is unchanged
+    const etag = full.headers.get('etag')!;
+    expect((await get({ Range: 'bytes=0-0', 'If-Range': etag })).status).toBe(206);
+    expect((await get({ Range: 'bytes=0-0', 'If-Range': 'W/"stale"' })).status).toBe(200);
+  });
+  
+  test('should serve precompressed static files', async () => {
+    server.app.use(middleware.serveStatic(dir, { precompressed: true }));
+    
+    await server.start();
+    
+    const get = (file: string, acceptEncoding: string) =>
+      fetch(`http://localhost:${server.port}/${file}`, { headers: { 'Accept-Encoding': acceptEncoding } });
+    
+    const br = await get('app.js', 'gzip, br');
+    expect(br.headers.get('content-encoding')).toBe('br');
+    expect(br.headers.get('content-type')).toMatch(/^text\/javascript/);
+    expect(br.headers.get('vary')).toBe('Accept-Encoding');
+    expect(await br.text()).toBe('console.log("app");');
+    
+    const gzip = await get('app.js', 'gzip');
+    expect(gzip.headers.get('content-encoding')).toBe('gzip');
+    expect(await gzip.text()).toBe('console.log("app");');
+    
+    // Without an accepted variant the original file is sent
+    const identity = await get('app.js', 'identity');
+    expect(identity.headers.get('content-encoding')).toBeNull();
+    expect(identity.headers.get('vary')).toBe('Accept-Encoding');
+    expect(await identity.text()).toBe('console.log("app");');
+    
+    const missingVariant = await get('style.css', 'br');
+    expect(missingVariant.headers.get('content-encoding')).toBeNull();
+    expect(await missingVariant.text()).toBe('body {}');
+  });
+  
+  test('should serve single-page apps from several static roots', async () => {
+    const build = path.join(dir, 'build');
+    const shared = path.join(dir, 'shared');
+    fs.mkdirSync(path.join(build, 'docs'), { recursive: true });
+    fs.mkdirSync(shared, { recursive: true });
+    fs.writeFileSync(path.join(build, 'index.html'), '<div id="app"></div>');
+    fs.writeFileSync(path.join(build, 'about.html'), 'About');
+    fs.writeFileSync(path.join(build, 'docs', 'index.html'), 'Docs');
+    fs.writeFileSync(path.join(build, 'app.3f9a2c.js'), 'app()');
+    fs.writeFileSync(path.join(shared, 'logo.svg'), '<svg/>');
+    
+    const headersSeen: string[] = [];
+    server.app.use(middleware.serveStatic([build, shared], {
+      fallback: 'index.html',
+      extensions: ['html'],
+      maxAge: 31536000,
+      immutable: true,
+      setHeaders: (res, filePath) => {
+        headersSeen.push(path.basename(filePath));
+        if (filePath.endsWith('.html')) {
+          res.setHeader('Cache-Control', 'no-cache');
+        }
+      }
+    }));
+    server.app.get('/api/users', (req, res) => { res.json([]); });
+    
+    await server.start();
+    
+    const get = (pathname: string, accept: string = 'text/html,application/xhtml+xml,*/*;q=0.8') =>
+      fetch(`http://localhost:${server.port}${pathname}`, { headers: { Accept: accept }, redirect: 'manual' });
+    
+    // Deep links get the app's page
+    const deepLink = await get('/dashboard/settings');
+    expect(deepLink.status).toBe(200);
+    expect(await deepLink.text()).toBe('<div id="app"></div>');
+    expect(deepLink.headers.get('cache-control')).toBe('no-cache');
+    
+    // Requests that don't want HTML still 404, and routes still run
+    expect((await get('/missing.png', 'image/*')).status).toBe(404);
+    expect((await get('/api/users', 'application/json')).status).toBe(200);
+    
+    expect(await (await get('/about')).text()).toBe('About');
+    
+    const redirect = await get('/docs?page=2');
+    expect(redirect.status).toBe(301);
+    expect(redirect.headers.get('location')).toBe('/docs/?page=2');
+    expect(await (await get('/docs/')).text()).toBe('Docs');
+    
+    const hashed = await get('/app.3f9a2c.js', '*/*');
+    expect(hashed.headers.get('cache-control')).toBe('public, max-age=31536000, immutable');
+    
+    // Files missing from the first root are looked up in the next one
+    const logo = await get('/logo.svg', 'image/*');
+    expect(logo.status).toBe(200);
+    expect(await logo.text()).toBe('<svg/>');
+    
+    expect(headersSeen).toEqual(['index.html', 'about.html', 'index.html', 'app.3f9a2c.js', 'logo.svg']);
+  });
+  
+  test('should reject malformed and traversing static paths with a 4xx', async () => {
+    const site = path.join(dir, 'site');
+    fs.mkdirSync(path.join(site, 'docs'), { recursive: true });
+    fs.writeFileSync(path.join(dir, 'secret.txt'), 'secret');
+    server.app.use(middleware.serveStatic(site));
+    
+    await server.start();
+    
+    // fetch would resolve the dot segments before sending
+    const getStatus = (pathname: string) => new Promise<number | undefined>((resolve, reject) => {
+      http.get({ port: server.port, path: pathname }, (res) => {
+        res.resume();
+        resolve(res.statusCode);
+      }).on('error', reject);
+    });
+    
+    expect(await getStatus('/%E0%A4%A')).toBe(400);
+    expect(await getStatus('/../secret.txt')).toBe(403);
+    expect(await getStatus('/%2e%2e/secret.txt')).toBe(403);
+    expect(await getStatus('/missing.txt')).toBe(404);
+    
+    // A protocol-relative Location would redirect to the host `docs`
+    const redirect = await fetch(`http://localhost:${server.port}//docs?page=2`, { redirect: 'manual' });
+    expect(redirect.status).toBe(301);
+    expect(redirect.headers.get('location')).toBe('/docs/?page=2');
+  });
+  
+  test('should apply the dotfiles option to every segment of static paths', async () => {
+    const site = path.join(dir, 'site');
+    fs.mkdirSync(path.join(site, '.git'), { recursive: true });
+    fs.mkdirSync(path.join(site, '.env.d'), { recursive: true });
+    fs.writeFileSync(path.join(site, '.git', 'config'), '[core]');
+    fs.writeFileSync(path.join(site, '.env.d', 'x'), 'SECRET=1');
+    const handlers = {
+      ignore: middleware.serveStatic(site),
+      deny: middleware.serveStatic(site, { dotfiles: 'deny' }),
+      allow: middleware.serveStatic(site, { dotfiles: 'allow' })
+    };
+    server.app.use((req, res, next) => handlers[req.query.dotfiles as keyof typeof handlers](req, res, next));
+    
+    await server.start();
+    
+    const get = (pathname: string) => fetch(`http://localhost:${server.port}${pathname}`);
+    
+    expect((await get('/.git/config?dotfiles=ignore')).status).toBe(404);
+    expect((await get('/.env.d/x?dotfiles=ignore')).status).toBe(404);
+    expect((await get('/.git/config?dotfiles=deny')).status).toBe(403);
+    expect(await (await get('/.git/config?dotfiles=allow')).text()).toBe('[core]');
+  });
+  
+  test('should send validators and answer 304 for static files', async () => {
+    const plain = middleware.serveStatic(dir, { etag: false, lastModified: false });
+    server.app.use((req, res, next) => (req.headers['x-plain'] ? plain(req, res, next) : next()));
+    server.app.use(middleware.serveStatic(dir));
+    
+    await server.start();
+    
+    const first = await fetch(`http://localhost:${server.port}/report.csv`);
+    const etag = first.headers.get('etag')!;
+    const lastModified = first.headers.get('last-modified')!;
+    expect(etag).toMatch(/^W\/"7-[0-9a-f]+"$/);
+    expect(lastModified).toBe(fs.statSync(path.join(dir, 'report.csv')).mtime.toUTCString());
+    
+    const byTag = await fetch(`http://localhost:${server.port}/report.csv`, {
+      headers: { 'If-None-Match': etag, 'Cache-Control': 'max-age=0' }
+    });
+    expect(byTag.status).toBe(304);
+    expect(await byTag.text()).toBe('');
+    
+    const byDate = await fetch(`http://localhost:${server.port}/report.csv`, {
+      headers: { 'If-Modified-Since': lastModified, 'Cache-Control': 'max-age=0' }
+    });
+    expect(byDate.status).toBe(304);
+    
+    const withoutValidators = await fetch(`http://localhost:${server.port}/report.csv`, { headers: { 'X-Plain': '1' } });
+    expect(withoutValidators.headers.get('etag')).toBeNull();
+    expect(withoutValidators.headers.get('last-modified')).toBeNull();
+  });
+});
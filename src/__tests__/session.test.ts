@@ -0,0 +1,178 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileStore, MemoryStore } from '../session';
+import { middleware } from '../index';
+import { useTestServer } from './testServer';
+
+describe('Session stores', () => {
+  test('should expire sessions in the memory store', async () => {
+    const store = new MemoryStore({ checkPeriod: 0 });
+
+    await store.set('a', { user: 1 }, 60000);
+    await store.set('b', { user: 2 }, -1);
+
+    expect(await store.get('a')).toEqual({ user: 1 });
+    expect(await store.get('b')).toBeUndefined();
+
+    await store.set('c', { user: 3 }, -1);
+    store.sweep();
+    expect(store.size).toBe(1);
+
+    await store.destroy('a');
+    expect(await store.get('a')).toBeUndefined();
+    store.close();
+  });
+
+  test('should not share stored objects by reference', async () => {
+    const store = new MemoryStore({ checkPeriod: 0 });
+    const data = { cart: ['apple'] };
+
+    await store.set('a', data, 60000);
+    data.cart.push('pear');
+    (await store.get('a'))!.cart.push('plum');
+
+    expect(await store.get('a')).toEqual({ cart: ['apple'] });
+    store.close();
+  });
+
+  describe('FileStore', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sessions-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('should store sessions as files', async () => {
+      const store = new FileStore({ dir: path.join(dir, 'nested') });
+
+      await store.set('abc', { user: 'ada' }, 60000);
+      expect(await store.get('abc')).toEqual({ user: 'ada' });
+      expect(fs.readdirSync(path.join(dir, 'nested'))).toEqual(['abc.json']);
+
+      await store.destroy('abc');
+      await store.destroy('abc');
+      expect(await store.get('abc')).toBeUndefined();
+    });
+
+    test('should sweep expired sessions', async () => {
+      const store = new FileStore({ dir });
+
+      await store.set('live', { n: 1 }, 60000);
+      await store.set('old', { n: 2 }, -1);
+
+      expect(await store.sweep()).toBe(1);
+      expect(fs.readdirSync(dir)).toEqual(['live.json']);
+    });
+
+    test('should reject ids that could escape the directory', async () => {
+      const store = new FileStore({ dir });
+
+      await expect(store.get('../etc/passwd')).rejects.toThrow('Invalid session id');
+    });
+  });
+});
+
+describe('Session middleware', () => {
+  const server = useTestServer();
+
+  let store: MemoryStore;
+
+  beforeEach(() => {
+    store = new MemoryStore({ checkPeriod: 0 });
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  const sessionCookie = (response: globalThis.Response) => {
+    const cookie = response.headers.getSetCookie().find(value => value.startsWith('sid='));
+    return cookie && cookie.split(';')[0];
+  };
+
+  test('should only store sessions that were used', async () => {
+    server.app.use(middleware.session({ secret: 'keyboard cat', store }));
+    server.app.get('/visit', (req, res) => {
+      req.session.visits = (req.session.visits || 0) + 1;
+      res.json({ visits: req.session.visits });
+    });
+    server.app.get('/peek', (req, res) => {
+      res.json({ visits: req.session.visits || 0 });
+    });
+
+    await server.start();
+
+    // Reading an empty session neither stores it nor sets a cookie
+    const peek = await fetch(`http://localhost:${server.port}/peek`);
+    expect(sessionCookie(peek)).toBeUndefined();
+    expect(store.size).toBe(0);
+
+    const first = await fetch(`http://localhost:${server.port}/visit`);
+    const cookie = sessionCookie(first)!;
+    expect(cookie).toMatch(/^sid=s%3A/);
+    expect(first.headers.get('set-cookie')).toContain('HttpOnly');
+    expect(await first.json()).toEqual({ visits: 1 });
+
+    const second = await fetch(`http://localhost:${server.port}/visit`, { headers: { Cookie: cookie } });
+    expect(await second.json()).toEqual({ visits: 2 });
+    // The cookie is only sent again when rolling
+    expect(sessionCookie(second)).toBeUndefined();
+    expect(store.size).toBe(1);
+
+    // A forged cookie starts a new session
+    const forged = await fetch(`http://localhost:${server.port}/peek`, { headers: { Cookie: cookie.replace(/.$/, 'x') } });
+    expect(await forged.json()).toEqual({ visits: 0 });
+  });
+
+  test('should regenerate and destroy sessions', async () => {
+    server.app.use(middleware.session({ secret: 'keyboard cat', store, rolling: true, cookie: { maxAge: 60000 } }));
+    server.app.get('/anonymous', (req, res) => {
+      req.session.cart = ['apple'];
+      res.json({ id: req.session.id });
+    });
+    server.app.get('/login', async (req, res) => {
+      const oldId = req.session.id;
+      await req.session.regenerate();
+      req.session.user = 'ada';
+      res.json({ oldId, id: req.session.id, cart: req.session.cart });
+    });
+    server.app.get('/whoami', (req, res) => {
+      res.json({ user: req.session.user });
+    });
+    server.app.get('/logout', async (req, res) => {
+      await req.session.destroy();
+      res.send('bye');
+    });
+
+    await server.start();
+
+    const anonymous = await fetch(`http://localhost:${server.port}/anonymous`);
+    const anonymousCookie = sessionCookie(anonymous)!;
+
+    const login = await fetch(`http://localhost:${server.port}/login`, { headers: { Cookie: anonymousCookie } });
+    const loginCookie = sessionCookie(login)!;
+    const body = await login.json();
+    expect(body.id).not.toBe(body.oldId);
+    expect(body.cart).toBeUndefined();
+    expect(loginCookie).not.toBe(anonymousCookie);
+    expect(login.headers.get('set-cookie')).toContain('Max-Age=60');
+
+    // The pre-login session id is no longer valid
+    const old = await fetch(`http://localhost:${server.port}/whoami`, { headers: { Cookie: anonymousCookie } });
+    expect(await old.json()).toEqual({});
+
+    const whoami = await fetch(`http://localhost:${server.port}/whoami`, { headers: { Cookie: loginCookie } });
+    expect(await whoami.json()).toEqual({ user: 'ada' });
+    // Rolling sessions get a fresh cookie on every response
+    expect(sessionCookie(whoami)).toBe(loginCookie);
+
+    const logout = await fetch(`http://localhost:${server.port}/logout`, { headers: { Cookie: loginCookie } });
+    expect(logout.headers.get('set-cookie')).toContain('sid=; Path=/; Expires=Thu, 01 Jan 1970 00:00:00 GMT');
+    expect(store.size).toBe(0);
+  });
+});
@@ -0,0 +1,83 @@
+import { createHmac } from 'crypto';
+import { Request, Response, middleware } from '../index';
+import { useTestServer } from './testServer';
+
+describe('Webhook signatures', () => {
+  const server = useTestServer();
+  
+  test('should verify webhook signatures', async () => {
+    const secret = 'whsec';
+    const hmac = (payload: string) => createHmac('sha256', secret).update(payload).digest('hex');
+    
+    server.app.post('/github',
+      middleware.bodyParser.json({ rawBody: true }),
+      middleware.verifySignature({ secret: ['new-secret', secret], header: 'X-Hub-Signature-256', prefix: 'sha256=' }),
+      (req, res) => {
+        res.json(req.body);
+      });
+    server.app.post('/timestamped',
+      middleware.bodyParser.raw({ type: '*/*' }),
+      middleware.verifySignature({ secret, timestampHeader: 'X-Timestamp', tolerance: 60 }),
+      (req, res) => {
+        res.send('ok');
+      });
+    
+    await server.start();
+    
+    const body = '{"action":"opened"}';
+    const github = (signature?: string) => fetch(`http://localhost:${server.port}/github`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(signature ? { 'X-Hub-Signature-256': signature } : {}) },
+      body
+    });
+    
+    expect(await (await github(`sha256=${hmac(body)}`)).json()).toEqual({ action: 'opened' });
+    expect((await github(`sha256=${hmac(body + ' ')}`)).status).toBe(401);
+    expect((await github(hmac(body))).status).toBe(401);
+    expect((await github()).status).toBe(401);
+    
+    const timestamped = (timestamp: number) => fetch(`http://localhost:${server.port}/timestamped`, {
+      method: 'POST',
+      headers: { 'X-Timestamp': String(timestamp), 'X-Signature': hmac(`${timestamp}.${body}`) },
+      body
+    });
+    
+    const now = Math.floor(Date.now() / 1000);
+    expect(await (await timestamped(now)).text()).toBe('ok');
+    // A captured request can't be replayed later
+    expect((await timestamped(now - 3600)).status).toBe(401);
+  });
+  
+  test('should report a missing raw body when a global parser read the body first', async () => {
+    const secret = 'whsec';
+    const body = '{"action":"opened"}';
+    const verified: string[] = [];
+    const errors: string[] = [];
+    
+    server.app.use(middleware.bodyParser.json());
+    server.app.post('/webhook',
+      middleware.bodyParser.json({ rawBody: true, verify: () => { verified.push('route'); } }),
+      middleware.verifySignature({ secret }),
+      (req, res) => {
+        res.send('ok');
+      });
+    server.app.use((err: any, req: Request, res: Response, next: any) => {
+      errors.push(err.message);
+      next(err);
+    });
+    
+    await server.start();
+    
+    const response = await fetch(`http://localhost:${server.port}/webhook`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Signature': createHmac('sha256', secret).update(body).digest('hex') },
+      body
+    });
+    
+    // The route's parser leaves the body to the global one instead of waiting for it
+    expect(response.status).toBe(500);
+    expect(verified).toEqual([]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatch(/^verifySignature\(\) found no raw body.*rawBody: true/);
+  });
+});
@@ -0,0 +1,57 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import express, { Application } from '../index';
+
+/**
+ * The application of the current test and the server it listens on
+ */
+export interface TestServer {
+  app: Application;
+  port: number;
+  /** Listen on a random port and resolve with it */
+  start(): Promise<number>;
+}
+
+/**
+ * Give every test of the enclosing `describe()` a new application, and close
+ * its server after the test
+ * @example
+ * const server = useTestServer();
+ *
+ * test('should answer', async () => {
+ *   server.app.get('/', (req, res) => res.send('OK'));
+ *   await server.start();
+ *   await fetch(`http://localhost:${server.port}/`);
+ * });
+ */
+export function useTestServer(): TestServer {
+  let listening: http.Server | undefined;
+
+  const context = {
+    start: () => new Promise<number>((resolve) => {
+      const current = context.app.listen(0, () => {
+        context.port = (current.address() as AddressInfo).port;
+        resolve(context.port);
+      });
+      listening = current;
+    })
+  } as TestServer;
+
+  beforeEach(() => {
+    context.app = express();
+    // Disable debug mode for tests
+    Application.setDebugMode(false);
+  });
+
+  afterEach((done) => {
+    const current = listening;
+    listening = undefined;
+    if (current) {
+      current.close(() => done());
+    } else {
+      done();
+    }
+  });
+
+  return context;
+}
@@ -0,0 +1,328 @@
+import * as querystring from 'querystring';
+import { Readable } from 'stream';
+import type { Middleware, Request, Response, NextFunction } from './Application';
+import { BadRequestError, ForbiddenError, PayloadTooLargeError, UnsupportedMediaTypeError, isHttpError } from './errors';
+import { decodeBody, inflateError } from './inflate';
+import { multipart } from './multipart';
+import { parseMediaType } from './negotiation';
+
+/**
+ * Which requests a body parser handles: media types (with wildcards, `+suffix`
+ * types and shorthands such as `json`), or a predicate
+ */
+export type BodyTypeOption = string | string[] | ((req: Request) => boolean);
+
+/**
+ * Options shared by the body parsers
+ */
+export interface BodyParserOptions {
+  /** Content types to parse */
+  type?: BodyTypeOption;
+  /**
+   * Maximum body size after decompression, in bytes or as a string such as
+   * `'100kb'` (default `'100kb'`)
+   */
+  limit?: number | string;
+  /** Accept gzip, deflate and br compressed bodies (default true); if false they fail with 415 */
+  inflate?: boolean;
+  /**
+   * Called with the (inflated) body before it is parsed; throw to reject the
+   * request. Errors without a status are answered with 403.
+   */
+  verify?: (req: Request, res: Response, buf: Buffer, encoding: string) => void;
+  /** Keep the unparsed body in `req.rawBody` (default false) */
+  rawBody?: boolean;
+}
+
+/**
+ * Options for `bodyParser.json()`
+ */
+export interface JsonOptions extends BodyParserOptions {
+  /** Only accept objects and arrays (default true) */
+  strict?: boolean;
+  /** Passed to JSON.parse */
+  reviver?: (key: string, value: any) => any;
+}
+
+/**
+ * Options for `bodyParser.text()`
+ */
+export interface TextOptions extends BodyParserOptions {
+  /** Charset used when the request doesn't specify one (default utf-8) */
+  defaultCharset?: string;
+}
+
+/**
+ * Options for `bodyParser.urlencoded()`
+ */
+export interface UrlencodedOptions extends BodyParserOptions {
+  /** Maximum number of parameters (default 1000); more fail with 413 */
+  parameterLimit?: number;
+}
+
+const UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 ** 2,
+  gb: 1024 ** 3
+};
+
+/**
+ * Convert a size such as `'100kb'` or `'1.5mb'` to bytes. Units are
+ * binary (1kb = 1024 bytes) and default to bytes.
+ * @throws TypeError for values that can't be parsed
+ */
+export function parseBytes(value: number | string): number {
+  if (typeof value === 'number') {
+    return value;
+  }
+
+  const match = /^\s*(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?\s*$/i.exec(value);
+  if (!match) {
+    throw new TypeError(`Invalid size: ${value}`);
+  }
+
+  return Math.floor(parseFloat(match[1]) * UNITS[(match[2] || 'b').toLowerCase()]);
+}
+
+/**
+ * Build the check for the `type` option
+ */
+function typeChecker(type: BodyTypeOption): (req: Request) => boolean {
+  if (typeof type === 'function') {
+    return type;
+  }
+  return req => !!req.is(type);
+}
+
+/**
+ * Get the charset of the request body, lowercased
+ * @param req The request
+ * @param fallback Charset to use when the request doesn't specify one
+ */
+function requestCharset(req: Request, fallback: string = 'utf-8'): string {
+  const type = parseMediaType(req.headers['content-type'] || '');
+  return ((type && type.params.charset) || fallback).toLowerCase();
+}
+
+/**
+ * Get a decoder for the request's charset
+ * @param req The request
+ * @param fallback Charset to use when the request doesn't specify one
+ * @throws UnsupportedMediaTypeError (415) for unknown charsets
+ */
+function charsetDecoder(req: Request, fallback?: string): TextDecoder {
+  const charset = requestCharset(req, fallback);
+
+  try {
+    return new TextDecoder(charset, { fatal: false });
+  } catch {
+    throw new UnsupportedMediaTypeError(`Unsupported charset "${charset.toUpperCase()}"`, { details: { charset } });
+  }
+}
+
+/**
+ * Read the request body into a Buffer, decompressing it if needed and
+ * aborting with a 413 as soon as the (inflated) body gets larger than the
+ * limit. Uncompressed bodies whose size doesn't match their Content-Length
+ * are rejected with a 400.
+ * @param req The request
+ * @param options.limit Maximum size in bytes, after decompression
+ * @param options.inflate Whether compressed bodies are accepted (default true)
+ */
+export function readBody(req: Request, options: { limit: number; inflate?: boolean }): Promise<Buffer> {
+  const { limit } = options;
+
+  return new Promise((resolve, reject) => {
+    let stream: Readable;
+    try {
+      stream = decodeBody(req, options.inflate);
+    } catch (err) {
+      req.resume();
+      return reject(err);
+    }
+
+    // The Content-Length of a compressed body says nothing about its inflated size
+    const declared = stream === req && req.headers['content-length'] !== undefined
+      ? Number(req.headers['content-length'])
+      : undefined;
+
+    // Fail early instead of reading a body that is already known to be too large
+    if (declared !== undefined && declared > limit) {
+      req.resume();
+      return reject(new PayloadTooLargeError('Request body too large', { details: { limit } }));
+    }
+
+    const chunks: Buffer[] = [];
+    let received = 0;
+    let done = false;
+
+    const finish = (err?: Error) => {
+      if (done) return;
+      done = true;
+      stream.removeListener('data', onData);
+      if (err) {
+        // Stop decompressing and discard the rest of the body
+        if (stream !== req) {
+          req.unpipe();
+          stream.destroy();
+        }
+        req.resume();
+        return reject(err);
+      }
+      resolve(Buffer.concat(chunks, received));
+    };
+
+    const onData = (chunk: Buffer) => {
+      received += chunk.length;
+      if (received > limit) {
+        return finish(new PayloadTooLargeError('Request body too large', { details: { limit } }));
+      }
+      chunks.push(chunk);
+    };
+
+    stream.on('data', onData);
+    stream.on('end', () => {
+      if (declared !== undefined && declared !== received) {
+        return finish(new BadRequestError('Request size did not match Content-Length'));
+      }
+      finish();
+    });
+    if (stream !== req) {
+      stream.on('error', err => finish(inflateError(err)));
+    }
+    req.on('aborted', () => finish(new BadRequestError('Request aborted')));
+    req.on('error', finish);
+  });
+}
+
+/**
+ * Build a body parser middleware around a function that turns the raw body
+ * into `req.body`, after the `verify` hook accepted it. Requests without a
+ * body, that don't match `type` or whose body another parser already read
+ * are passed on untouched.
+ */
+function createParser(
+  options: BodyParserOptions,
+  defaultType: BodyTypeOption,
+  parse: (req: Request, body: Buffer) => any
+): Middleware {
+  const limit = parseBytes(options.limit !== undefined ? options.limit : '100kb');
+  const shouldParse = typeChecker(options.type || defaultType);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    // The stream can only be read once, so the first matching parser owns the body
+    if (req._body || !shouldParse(req)) {
+      return next();
+    }
+    req._body = true;
+
+    readBody(req, { limit, inflate: options.inflate }).then((body) => {
+      if (options.verify) {
+        try {
+          options.verify(req, res, body, requestCharset(req));
+        } catch (err) {
+          return next(isHttpError(err) ? err : new ForbiddenError('Request body verification failed', { cause: err }));
+        }
+      }
+
+      if (options.rawBody) {
+        req.rawBody = body;
+      }
+
+      try {
+        req.body = parse(req, body);
+      } catch (err) {
+        return next(err);
+      }
+      next();
+    }, next);
+  };
+}
+
+/**
+ * First non-whitespace character of a JSON text, to check strict mode
+ */
+const FIRST_CHAR = /^[\x20\x09\x0a\x0d]*(.)/;
+
+/**
+ * Body parser middleware for JSON, text, raw, URL-encoded and multipart bodies
+ */
+export const bodyParser = {
+  /**
+   * Parses JSON request bodies (`application/json` by default) into `req.body`
+   * @param options Type, size limit, strict mode and reviver
+   */
+  json(options: JsonOptions = {}): Middleware {
+    const strict = options.strict !== false;
+
+    return createParser(options, 'application/json', (req, body) => {
+      const text = charsetDecoder(req).decode(body);
+      if (!text.trim()) {
+        return {};
+      }
+
+      if (strict) {
+        const first = FIRST_CHAR.exec(text);
+        if (!first || (first[1] !== '{' && first[1] !== '[')) {
+          throw new BadRequestError('Invalid JSON: only objects and arrays are accepted in strict mode');
+        }
+      }
+
+      try {
+        return JSON.parse(text, options.reviver);
+      } catch (error) {
+        throw new BadRequestError('Invalid JSON', { cause: error });
+      }
+    });
+  },
+
+  /**
+   * Reads the body as a string (`text/plain` by default), decoded with the request's charset
+   * @param options Type, size limit and default charset
+   */
+  text(options: TextOptions = {}): Middleware {
+    return createParser(options, 'text/plain', (req, body) => charsetDecoder(req, options.defaultCharset).decode(body));
+  },
+
+  /**
+   * Reads the body into a Buffer (`application/octet-stream` by default), e.g. to
+   * check webhook signatures against the exact bytes that were sent
+   * @param options Type and size limit
+   */
+  raw(options: BodyParserOptions = {}): Middleware {
+    return createParser(options, 'application/octet-stream', (req, body) => body);
+  },
+
+  /**
+   * Parses URL-encoded form data (`application/x-www-form-urlencoded` by default)
+   * into `req.body`. Percent-encoded bytes are decoded with the request's charset.
+   * @param options Type, size limit and parameter limit
+   */
+  urlencoded(options: UrlencodedOptions = {}): Middleware {
+    const parameterLimit = options.parameterLimit !== undefined ? options.parameterLimit : 1000;
+
+    return createParser(options, 'application/x-www-form-urlencoded', (req, body) => {
+      const decoder = charsetDecoder(req);
+      // Latin-1 maps every byte to one character, so no byte is lost before decoding
+      const text = body.toString('latin1');
+
+      if (text.split('&').length > parameterLimit) {
+        throw new PayloadTooLargeError('Too many parameters', { details: { limit: parameterLimit } });
+      }
+
+      return querystring.parse(text, '&', '=', {
+        maxKeys: 0,
+        decodeURIComponent: (value: string) => {
+          const bytes = value.replace(/%([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+          return decoder.decode(Buffer.from(bytes, 'latin1'));
+        }
+      });
+    });
+  },
+
+  /**
+   * Parses multipart/form-data, streaming files to disk or a storage engine
+   */
+  multipart
+};
@@ -0,0 +1,203 @@
+import * as zlib from 'zlib';
+import type { Middleware, Request, Response, NextFunction } from './Application';
+import { parseBytes } from './bodyParser';
+import { appendVary, parseMediaType, preferredEncodings } from './negotiation';
+
+/**
+ * Options for `middleware.compression()`
+ */
+export interface CompressionOptions {
+  /**
+   * Responses smaller than this are sent uncompressed, in bytes or as a
+   * string such as `'1kb'` (default `'1kb'`). Only applies when the size is
+   * known, i.e. with a Content-Length or a body passed to `res.end()`.
+   */
+  threshold?: number | string;
+  /** Decide whether a response may be compressed (default: `shouldCompress`) */
+  filter?: (req: Request, res: Response) => boolean;
+  /** gzip and deflate compression level (default zlib's default, 6) */
+  level?: number;
+  /** Brotli quality, 0 to 11 (default 4, which is fast enough for dynamic responses) */
+  brotliQuality?: number;
+}
+
+/**
+ * Supported encodings, in the order we prefer them when the client accepts several equally
+ */
+const ENCODINGS = ['br', 'gzip', 'deflate', 'identity'];
+
+/**
+ * Content types worth compressing; images, video, archives and fonts such as
+ * woff2 are already compressed
+ */
+const COMPRESSIBLE = /^(?:text\/|application\/(?:json|javascript|ecmascript|xml|x-javascript|x-www-form-urlencoded|graphql|wasm|manifest\+json)|image\/(?:svg\+xml|x-icon|bmp)|font\/(?:ttf|otf)|[^/]+\/[^/]+\+(?:json|xml)$)/;
+
+/**
+ * Check whether a content type is worth compressing
+ * @param type A Content-Type header value
+ */
+export function isCompressible(type: string): boolean {
+  const parsed = parseMediaType(type);
+  return !!parsed && COMPRESSIBLE.test(`${parsed.type}/${parsed.subtype}`);
+}
+
+/**
+ * Default compression filter: compress compressible content types
+ */
+export function shouldCompress(req: Request, res: Response): boolean {
+  const type = res.getHeader('Content-Type');
+  return typeof type === 'string' && isCompressible(type);
+}
+
+/**
+ * Byte length of a chunk passed to `res.write()` or `res.end()`
+ */
+function chunkLength(chunk: any, encoding?: BufferEncoding): number {
+  if (!chunk) {
+    return 0;
+  }
+  return typeof chunk === 'string' ? Buffer.byteLength(chunk, encoding) : chunk.length;
+}
+
+/**
+ * Response compression middleware. Negotiates br, gzip or deflate with the
+ * client's Accept-Encoding and compresses everything written to the response
+ * as it is written, so it works for `res.send()`, `res.json()`, streamed files
+ * and server-sent events alike. Call `res.flush()` to push out what was
+ * compressed so far; event streams are flushed after every write.
+ * @param options Threshold, filter and compression levels
+ */
+export function compression(options: CompressionOptions = {}): Middleware {
+  const threshold = parseBytes(options.threshold !== undefined ? options.threshold : '1kb');
+  const filter = options.filter || shouldCompress;
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const writeHead = res.writeHead;
+    const write = res.write;
+    const end = res.end;
+
+    let stream: zlib.Gzip | zlib.Deflate | zlib.BrotliCompress | undefined;
+    let flushEachWrite = false;
+    // Size of a body passed straight to res.end(), when no Content-Length was set
+    let endLength: number | undefined;
+
+    const start = (): void => {
+      if (req.method === 'HEAD' || !filter(req, res)) {
+        return;
+      }
+
+      appendVary(res, 'Accept-Encoding');
+
+      const status = res.statusCode;
+      const length = res.getHeader('Content-Length') !== undefined ? Number(res.getHeader('Content-Length')) : endLength;
+      const cacheControl = String(res.getHeader('Cache-Control') || '');
+      const existing = String(res.getHeader('Content-Encoding') || 'identity').toLowerCase();
+
+      if (status === 204 || status === 206 || status === 304
+        || existing !== 'identity'
+        || /(?:^|,)\s*no-transform\s*(?:,|$)/.test(cacheControl)
+        || (length !== undefined && length < threshold)) {
+        return;
+      }
+
+      const accept = req.headers['accept-encoding'];
+      const [encoding] = preferredEncodings(Array.isArray(accept) ? accept.join(',') : accept, ENCODINGS, true);
+      if (!encoding || encoding === 'identity') {
+        return;
+      }
+
+      stream = encoding === 'br'
+        ? zlib.createBrotliCompress({
+          params: {
+            [zlib.constants.BROTLI_PARAM_QUALITY]: options.brotliQuality !== undefined ? options.brotliQuality : 4,
+            ...(length !== undefined ? { [zlib.constants.BROTLI_PARAM_SIZE_HINT]: length } : {})
+          }
+        })
+        : encoding === 'gzip' ? zlib.createGzip({ level: options.level }) : zlib.createDeflate({ level: options.level });
+
+      res.setHeader('Content-Encoding', encoding);
+      res.removeHeader('Content-Length');
+
+      const type = res.getHeader('Content-Type');
+      flushEachWrite = typeof type === 'string' && type.startsWith('text/event-stream');
+
+      // Pass compressed data on, pausing the compressor while the socket is busy
+      const output = stream;
+      output.on('data', (chunk: Buffer) => {
+        if ((write as (chunk: Buffer) => boolean).call(res, chunk) === false) {
+          output.pause();
+        }
+      });
+      res.on('drain', () => output.resume());
+      output.on('end', () => {
+        (end as () => Response).call(res);
+      });
+      // Don't keep compressing for a client that went away
+      res.once('close', () => output.destroy());
+    };
+
+    res.writeHead = function(this: Response, ...args: any[]) {
+      // Headers passed to writeHead() must be visible to the filter and the checks
+      const headers = args.find((arg, index) => index > 0 && arg && typeof arg === 'object' && !Array.isArray(arg));
+      if (headers) {
+        Object.entries(headers).forEach(([name, value]) => this.setHeader(name, value as string | number | string[]));
+        args = args.filter(arg => arg !== headers);
+      }
+      start();
+      return (writeHead as (...args: any[]) => Response).apply(this, args);
+    } as typeof res.writeHead;
+
+    res.write = function(this: Response, chunk: any, encoding?: any, callback?: any) {
+      if (!this.headersSent) {
+        this.writeHead(this.statusCode);
+      }
+      if (!stream) {
+        return (write as (...args: any[]) => boolean).call(this, chunk, encoding, callback);
+      }
+
+      const written = typeof encoding === 'function'
+        ? stream.write(chunk, encoding)
+        : stream.write(chunk, encoding || 'utf8', callback);
+      if (flushEachWrite) {
+        stream.flush();
+      }
+      return written;
+    } as typeof res.write;
+
+    res.end = function(this: Response, chunk?: any, encoding?: any, callback?: any) {
+      if (typeof chunk === 'function') {
+        callback = chunk;
+        chunk = undefined;
+      } else if (typeof encoding === 'function') {
+        callback = encoding;
+        encoding = undefined;
+      }
+
+      if (!this.headersSent) {
+        endLength = chunkLength(chunk, encoding);
+        this.writeHead(this.statusCode);
+      }
+      if (!stream) {
+        return (end as (...args: any[]) => Response).call(this, chunk, encoding, callback);
+      }
+
+      if (callback) {
+        this.once('finish', callback);
+      }
+      if (chunk) {
+        stream.end(chunk, encoding);
+      } else {
+        stream.end();
+      }
+      return this;
+    } as typeof res.end;
+
+    res.flush = () => {
+      if (stream) {
+        stream.flush();
+      }
+    };
+
+    return next();
+  };
+}
@@ -0,0 +1,236 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { ServerResponse } from 'http';
+
+/**
+ * Options for `res.cookie()` and `res.clearCookie()`
+ */
+export interface CookieOptions {
+  /** Lifetime in milliseconds, sent as both Max-Age and Expires */
+  maxAge?: number;
+  /** Expiry date; ignored when `maxAge` is set */
+  expires?: Date;
+  domain?: string;
+  /** Defaults to `/` */
+  path?: string;
+  secure?: boolean;
+  httpOnly?: boolean;
+  /** `true` is the same as `'strict'` */
+  sameSite?: boolean | 'strict' | 'lax' | 'none';
+  /** CHIPS partitioned cookie, requires `secure` */
+  partitioned?: boolean;
+  /** Sign the value with the secret given to the cookie parser */
+  signed?: boolean;
+  /** Encode the value, defaults to encodeURIComponent */
+  encode?: (value: string) => string;
+}
+
+/**
+ * Prefix of signed cookie values
+ */
+const SIGNED_PREFIX = 's:';
+
+/**
+ * Cookie names must be RFC 7230 tokens
+ */
+const TOKEN = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+/**
+ * Characters allowed in an encoded cookie value (RFC 6265 cookie-octet)
+ */
+const COOKIE_VALUE = /^[\x21\x23-\x2B\x2D-\x3A\x3C-\x5B\x5D-\x7E]*$/;
+
+/**
+ * Characters allowed in Domain and Path attributes
+ */
+const ATTRIBUTE_VALUE = /^[\x20-\x3A\x3C-\x7E]+$/;
+
+/**
+ * Decode a cookie value, leaving it unchanged if it isn't valid percent-encoding
+ */
+function decode(value: string): string {
+  if (!value.includes('%')) {
+    return value;
+  }
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Parse a Cookie header. When a name appears more than once, the first value wins.
+ * @param header The Cookie header
+ * @param decodeValue Decoder for the values, percent-decoding by default
+ * @returns Cookie values by name
+ */
+export function parseCookies(header: string | undefined, decodeValue: (value: string) => string = decode): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!header) {
+    return cookies;
+  }
+
+  header.split(';').forEach((pair) => {
+    const eq = pair.indexOf('=');
+    if (eq === -1) return;
+
+    const name = pair.slice(0, eq).trim();
+    if (!name || Object.prototype.hasOwnProperty.call(cookies, name)) return;
+
+    let value = pair.slice(eq + 1).trim();
+    if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+      value = value.slice(1, -1);
+    }
+
+    cookies[name] = decodeValue(value);
+  });
+
+  return cookies;
+}
+
+/**
+ * Serialize a cookie for a Set-Cookie header
+ * @param name The cookie name
+ * @param value The cookie value, encoded with `options.encode`
+ * @param options Cookie attributes
+ * @throws TypeError for invalid names, values or attributes
+ */
+export function serializeCookie(name: string, value: string, options: CookieOptions = {}): string {
+  if (!TOKEN.test(name)) {
+    throw new TypeError(`Invalid cookie name: ${name}`);
+  }
+
+  const encoded = (options.encode || encodeURIComponent)(value);
+  if (!COOKIE_VALUE.test(encoded)) {
+    throw new TypeError(`Invalid cookie value for ${name}`);
+  }
+
+  let cookie = `${name}=${encoded}`;
+
+  if (options.maxAge !== undefined) {
+    if (!Number.isFinite(options.maxAge)) {
+      throw new TypeError(`Invalid maxAge for cookie ${name}`);
+    }
+    cookie += `; Max-Age=${Math.floor(options.maxAge / 1000)}`;
+  }
+
+  if (options.domain) {
+    if (!ATTRIBUTE_VALUE.test(options.domain)) {
+      throw new TypeError(`Invalid domain for cookie ${name}`);
+    }
+    cookie += `; Domain=${options.domain}`;
+  }
+
+  if (options.path) {
+    if (!ATTRIBUTE_VALUE.test(options.path)) {
+      throw new TypeError(`Invalid path for cookie ${name}`);
+    }
+    cookie += `; Path=${options.path}`;
+  }
+
+  if (options.expires) {
+    if (isNaN(options.expires.getTime())) {
+      throw new TypeError(`Invalid expires for cookie ${name}`);
+    }
+    cookie += `; Expires=${options.expires.toUTCString()}`;
+  }
+
+  if (options.httpOnly) {
+    cookie += '; HttpOnly';
+  }
+
+  if (options.secure) {
+    cookie += '; Secure';
+  }
+
+  if (options.partitioned) {
+    cookie += '; Partitioned';
+  }
+
+  if (options.sameSite) {
+    const sameSite = options.sameSite === true ? 'strict' : options.sameSite;
+    cookie += `; SameSite=${sameSite.charAt(0).toUpperCase()}${sameSite.slice(1)}`;
+  }
+
+  return cookie;
+}
+
+/**
+ * Sign a value with HMAC-SHA256
+ * @param value The value to sign
+ * @param secret The secret key
+ * @returns The value followed by a dot and its signature
+ */
+export function sign(value: string, secret: string): string {
+  const signature = createHmac('sha256', secret).update(value).digest('base64').replace(/=+$/, '');
+  return `${value}.${signature}`;
+}
+
+/**
+ * Verify a signed value. Every secret is tried, so secrets can be rotated by
+ * putting the new secret first and keeping the old ones until their cookies expire.
+ * @param signed The signed value, as produced by `sign`
+ * @param secrets The secret, or the list of accepted secrets
+ * @returns The original value, or false if the signature doesn't match
+ */
+export function unsign(signed: string, secrets: string | string[]): string | false {
+  const dot = signed.lastIndexOf('.');
+  if (dot === -1) {
+    return false;
+  }
+
+  const value = signed.slice(0, dot);
+  const actual = Buffer.from(signed);
+
+  for (const secret of Array.isArray(secrets) ? secrets : [secrets]) {
+    const expected = Buffer.from(sign(value, secret));
+    // Constant time comparison, so the signature can't be guessed byte by byte
+    if (expected.length === actual.length && timingSafeEqual(expected, actual)) {
+      return value;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Mark a value as a signed cookie value
+ */
+export function signCookie(value: string, secret: string): string {
+  return SIGNED_PREFIX + sign(value, secret);
+}
+
+/**
+ * Split parsed cookies into plain and signed cookies.
+ * Signed cookies whose signature doesn't match are set to false.
+ * @param cookies The parsed cookies
+ * @param secrets The accepted secrets
+ */
+export function unsignCookies(
+  cookies: Record<string, string>,
+  secrets: string[]
+): { cookies: Record<string, string>; signedCookies: Record<string, string | false> } {
+  const plain: Record<string, string> = {};
+  const signedCookies: Record<string, string | false> = {};
+
+  Object.entries(cookies).forEach(([name, value]) => {
+    if (secrets.length > 0 && value.startsWith(SIGNED_PREFIX)) {
+      signedCookies[name] = unsign(value.slice(SIGNED_PREFIX.length), secrets);
+    } else {
+      plain[name] = value;
+    }
+  });
+
+  return { cookies: plain, signedCookies };
+}
+
+/**
+ * Append a Set-Cookie header, keeping the cookies that were already set
+ * @param res The response
+ * @param cookie The serialized cookie
+ */
+export function appendSetCookie(res: ServerResponse, cookie: string): void {
+  const current = res.getHeader('Set-Cookie');
+  const cookies = current === undefined ? [] : Array.isArray(current) ? current : [String(current)];
+  res.setHeader('Set-Cookie', [...cookies, cookie]);
+}
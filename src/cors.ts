@@ -0,0 +1,163 @@
+import { Application } from './Application';
+import type { Middleware, Request, Response, NextFunction } from './Application';
+import { appendVary } from './negotiation';
+
+/**
+ * Which origins may read responses:
+ * - `'*'` allows any origin without credentials
+ * - `true` reflects the request's origin, `false` disables CORS
+ * - a string allows that one origin
+ * - a RegExp or a list of strings and RegExps allows the matching origins
+ * - a function decides per request, returning any of the above or a promise of it
+ */
+export type CorsOrigin =
+  | boolean
+  | string
+  | RegExp
+  | Array<string | RegExp>
+  | ((origin: string | undefined, req: Request) => CorsStaticOrigin | Promise<CorsStaticOrigin>);
+
+/**
+ * An origin option that isn't a function
+ */
+export type CorsStaticOrigin = boolean | string | RegExp | Array<string | RegExp>;
+
+/**
+ * Options for `middleware.cors()`
+ */
+export interface CorsOptions {
+  /** Allowed origins (default `'*'`) */
+  origin?: CorsOrigin;
+  /** Methods allowed in preflight requests (default GET, HEAD, PUT, PATCH, POST and DELETE) */
+  methods?: string | string[];
+  /** Request headers allowed in preflight requests (default Content-Type and Authorization) */
+  allowedHeaders?: string | string[];
+  /** Response headers scripts may read, besides the CORS-safelisted ones */
+  exposedHeaders?: string | string[];
+  /**
+   * Allow cookies and HTTP authentication. Without an `origin` option the
+   * request's origin is reflected, since browsers reject credentials for `'*'`;
+   * an explicit `origin: '*'` never sends this header.
+   */
+  credentials?: boolean;
+  /** How long browsers may cache a preflight response, in seconds (default 86400) */
+  maxAge?: number;
+  /** Pass preflight requests on to the next handler instead of answering them (default false) */
+  preflightContinue?: boolean;
+  /** Status of answered preflight requests (default 204) */
+  optionsSuccessStatus?: number;
+  /**
+   * Allow requests from public websites to this server on a private network
+   * (Private Network Access), answering `Access-Control-Request-Private-Network`
+   * preflights (default false)
+   */
+  allowPrivateNetwork?: boolean;
+}
+
+/**
+ * Join a header list option
+ */
+function headerList(value: string | string[]): string {
+  return Array.isArray(value) ? value.join(',') : value;
+}
+
+/**
+ * Check an origin against a string or RegExp
+ */
+function matchesOrigin(origin: string, allowed: string | RegExp): boolean {
+  return typeof allowed === 'string' ? origin === allowed : allowed.test(origin);
+}
+
+/**
+ * Work out the Access-Control-Allow-Origin value for a request
+ * @param origin The request's Origin header
+ * @param allowed The origin option
+ * @returns The header value, or undefined if the origin is not allowed
+ */
+function allowOrigin(origin: string | undefined, allowed: CorsStaticOrigin): string | undefined {
+  if (allowed === false) {
+    return undefined;
+  }
+  if (typeof allowed === 'string') {
+    return allowed;
+  }
+  if (!origin) {
+    return undefined;
+  }
+  if (allowed === true) {
+    return origin;
+  }
+
+  // Only the request's own origin is sent back, browsers reject a list
+  const list = Array.isArray(allowed) ? allowed : [allowed];
+  return list.some(entry => matchesOrigin(origin, entry)) ? origin : undefined;
+}
+
+/**
+ * CORS middleware. Answers preflight requests (OPTIONS requests with an
+ * Access-Control-Request-Method header) and adds the CORS headers to other
+ * requests from allowed origins. Use it with `app.use()` for all routes, or
+ * in front of single routes along with an `app.options()` route for their
+ * preflight requests.
+ * @param options Allowed origins, methods and headers
+ */
+export function cors(options: CorsOptions = {}): Middleware {
+  // Browsers ignore credentials on responses allowed for any origin, so the
+  // default '*' reflects the request's origin when credentials are allowed
+  const origin = options.origin !== undefined ? options.origin : options.credentials ? true : '*';
+  const methods = headerList(options.methods || 'GET,HEAD,PUT,PATCH,POST,DELETE');
+  const allowedHeaders = headerList(options.allowedHeaders || 'Content-Type,Authorization');
+  const exposedHeaders = options.exposedHeaders ? headerList(options.exposedHeaders) : '';
+  const maxAge = options.maxAge !== undefined ? options.maxAge : 86400;
+  const optionsSuccessStatus = options.optionsSuccessStatus || 204;
+
+  if (options.credentials && origin === '*') {
+    Application.logger.warn('cors() credentials are ignored for origin "*"; use origin: true to reflect the request origin');
+  }
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const requestOrigin = req.headers.origin;
+    const isPreflight = req.method === 'OPTIONS' && req.headers['access-control-request-method'] !== undefined;
+
+    let allowed: string | undefined;
+    try {
+      const resolved = typeof origin === 'function' ? await origin(requestOrigin, req) : origin;
+      allowed = allowOrigin(requestOrigin, resolved);
+    } catch (err) {
+      return next(err);
+    }
+
+    // Anything but a fixed '*' depends on the Origin header, including whether it is sent at all
+    if (origin !== '*') {
+      appendVary(res, 'Origin');
+    }
+
+    if (allowed) {
+      res.setHeader('Access-Control-Allow-Origin', allowed);
+      if (options.credentials && allowed !== '*') {
+        res.setHeader('Access-Control-Allow-Credentials', 'true');
+      }
+
+      if (isPreflight) {
+        res.setHeader('Access-Control-Allow-Methods', methods);
+        res.setHeader('Access-Control-Allow-Headers', allowedHeaders);
+        if (maxAge) {
+          res.setHeader('Access-Control-Max-Age', String(maxAge));
+        }
+        if (options.allowPrivateNetwork && req.headers['access-control-request-private-network'] === 'true') {
+          res.setHeader('Access-Control-Allow-Private-Network', 'true');
+        }
+      } else if (exposedHeaders) {
+        res.setHeader('Access-Control-Expose-Headers', exposedHeaders);
+      }
+    }
+
+    if (!isPreflight || options.preflightContinue) {
+      return next();
+    }
+
+    res.statusCode = optionsSuccessStatus;
+    res.setHeader('Content-Length', '0');
+    res.end();
+  };
+}
@@ -0,0 +1,107 @@
+import { ServerResponse } from 'http';
+import type { NextFunction } from './Application';
+
+/**
+ * Cache of "response closed" promises, so each response gets at most one listener
+ */
+const closedResponses = new WeakMap<ServerResponse, Promise<void>>();
+
+/**
+ * Get a promise that resolves once the response has been closed
+ * @param res The response to watch
+ */
+export function whenClosed(res: ServerResponse): Promise<void> {
+  let closed = closedResponses.get(res);
+
+  if (!closed) {
+    closed = new Promise<void>((resolve) => {
+      if (res.destroyed || res.writableFinished) {
+        return resolve();
+      }
+      res.once('close', () => resolve());
+    });
+    closedResponses.set(res, closed);
+  }
+
+  return closed;
+}
+
+/**
+ * Check whether a middleware is an error handler, i.e. declares
+ * the four `(err, req, res, next)` parameters
+ */
+export function isErrorHandler<E extends (...args: any[]) => unknown>(
+  middleware: E | ((...args: any[]) => unknown)
+): middleware is E {
+  return middleware.length === 4;
+}
+
+/**
+ * Check whether a handler result is a Promise (or any thenable)
+ */
+function isPromise(value: unknown): value is PromiseLike<unknown> {
+  return !!value && typeof (value as PromiseLike<unknown>).then === 'function';
+}
+
+/**
+ * Invoke a middleware or route handler.
+ *
+ * Synchronous throws and rejected promises are forwarded to `next(err)`.
+ * The returned promise resolves once the handler and everything downstream
+ * of it has finished, which is what makes `await next()` work: if the handler
+ * returns before calling `next()` (e.g. a body parser waiting for data), the
+ * promise waits until `next()` is called or the response is closed.
+ *
+ * @param handler The handler to invoke
+ * @param req The request object
+ * @param res The response object
+ * @param next The function that continues the chain
+ * @returns A promise that doesn't reject for errors of the handler
+ */
+export function invokeHandler<Req, Res extends ServerResponse>(
+  handler: (req: Req, res: Res, next: NextFunction) => void | Promise<void>,
+  req: Req,
+  res: Res,
+  next: NextFunction
+): Promise<void> {
+  let downstream: Promise<void> | undefined;
+  let release: (() => void) | undefined;
+
+  const handlerNext: NextFunction = (err?: any) => {
+    downstream = next(err);
+    if (release) {
+      // Rejections reach the caller through the returned promise
+      downstream.then(release, release);
+    }
+    return downstream;
+  };
+
+  const settle = (): Promise<void> => {
+    if (downstream) {
+      return downstream;
+    }
+    if (res.writableEnded) {
+      return Promise.resolve();
+    }
+    return new Promise<void>((resolve) => {
+      release = resolve;
+      whenClosed(res).then(resolve);
+    });
+  };
+
+  let result: void | Promise<void>;
+  try {
+    result = handler(req, res, handlerNext);
+  } catch (err) {
+    return handlerNext(err);
+  }
+
+  if (isPromise(result)) {
+    return Promise.resolve(result).then(settle, (err) => {
+      // A rejection without a reason must still be treated as an error
+      return handlerNext(err || new Error('Handler rejected without a reason'));
+    });
+  }
+
+  return settle();
+}
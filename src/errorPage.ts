@@ -0,0 +1,295 @@
+import * as fs from 'fs';
+import { STATUS_CODES } from 'http';
+import { fileURLToPath } from 'url';
+import type { Request } from './Application';
+import { getErrorStatus } from './errors';
+
+/**
+ * Where in the middleware chain an error was raised
+ */
+export interface ErrorContext {
+  /** 1-based position of the handler in the chain */
+  position: number;
+  /** Number of handlers in the chain */
+  total: number;
+  /** Name of the handler function, or 'anonymous' */
+  name: string;
+  /** Kind of handler that raised the error */
+  type: 'middleware' | 'route handler' | 'error handler' | 'not found handler';
+}
+
+/**
+ * A single line of source code around a stack frame
+ */
+export interface SourceLine {
+  line: number;
+  code: string;
+  current: boolean;
+}
+
+/**
+ * A parsed stack trace frame
+ */
+export interface StackFrame {
+  fn: string;
+  file: string;
+  line: number;
+  column: number;
+  source?: SourceLine[];
+}
+
+/**
+ * Everything shown on the development error page
+ */
+export interface ErrorReport {
+  error: {
+    name: string;
+    message: string;
+    status: number;
+    stack: StackFrame[];
+  };
+  request: {
+    method: string;
+    url: string;
+    headers: Record<string, string | string[] | undefined>;
+    params: Record<string, string>;
+    query: Record<string, string>;
+    body: any;
+  };
+  handler?: ErrorContext;
+}
+
+/**
+ * Number of lines shown before and after the line of each frame
+ */
+const SOURCE_CONTEXT_LINES = 3;
+
+/**
+ * Only the first frames get source excerpts, to keep the page small
+ */
+const MAX_SOURCE_FRAMES = 10;
+
+/**
+ * Headers whose values are masked on the error page
+ */
+const SENSITIVE_HEADERS = ['authorization', 'cookie', 'proxy-authorization'];
+
+/**
+ * Parse a V8 stack trace into frames
+ * @param stack The `err.stack` string
+ */
+export function parseStack(stack: string): StackFrame[] {
+  const frames: StackFrame[] = [];
+
+  stack.split('\n').forEach((line) => {
+    // "at fn (file:line:col)" or "at file:line:col"
+    const match = /^\s*at (?:(.+?) \()?(.+?):(\d+):(\d+)\)?$/.exec(line);
+    if (!match) return;
+
+    let file = match[2];
+    if (file.startsWith('file://')) {
+      file = fileURLToPath(file);
+    }
+
+    frames.push({
+      fn: match[1] || '<anonymous>',
+      file,
+      line: parseInt(match[3], 10),
+      column: parseInt(match[4], 10)
+    });
+  });
+
+  return frames;
+}
+
+/**
+ * Read the source lines around each frame from disk.
+ * Frames from Node internals, or whose file can't be read, get no excerpt.
+ */
+async function loadSourceExcerpts(frames: StackFrame[]): Promise<StackFrame[]> {
+  const files = new Map<string, Promise<string[] | null>>();
+
+  const readLines = (file: string) => {
+    if (!files.has(file)) {
+      files.set(file, fs.promises.readFile(file, 'utf8')
+        .then(content => content.split(/\r?\n/))
+        .catch(() => null));
+    }
+    return files.get(file)!;
+  };
+
+  return Promise.all(frames.map(async (frame, index) => {
+    if (index >= MAX_SOURCE_FRAMES || frame.file.startsWith('node:') || !frame.file.includes('/')) {
+      return frame;
+    }
+
+    const lines = await readLines(frame.file);
+    if (!lines) {
+      return frame;
+    }
+
+    const start = Math.max(1, frame.line - SOURCE_CONTEXT_LINES);
+    const end = Math.min(lines.length, frame.line + SOURCE_CONTEXT_LINES);
+    const source: SourceLine[] = [];
+    for (let line = start; line <= end; line++) {
+      source.push({ line, code: lines[line - 1], current: line === frame.line });
+    }
+
+    return { ...frame, source };
+  }));
+}
+
+/**
+ * Collect the error, request and chain details shown on the error page
+ * @param err The error
+ * @param req The request that failed
+ * @param context Where in the chain the error was raised
+ */
+export async function buildErrorReport(err: any, req: Request, context?: ErrorContext): Promise<ErrorReport> {
+  const stack = err && typeof err.stack === 'string' ? parseStack(err.stack) : [];
+
+  const headers: Record<string, string | string[] | undefined> = {};
+  Object.entries(req.headers).forEach(([name, value]) => {
+    headers[name] = SENSITIVE_HEADERS.includes(name) ? '[redacted]' : value;
+  });
+
+  return {
+    error: {
+      name: (err && err.name) || 'Error',
+      message: err && err.message !== undefined ? String(err.message) : String(err),
+      status: getErrorStatus(err),
+      stack: await loadSourceExcerpts(stack)
+    },
+    request: {
+      method: req.method || 'GET',
+      url: req.url || '/',
+      headers,
+      params: req.params || {},
+      query: req.query || {},
+      body: req.body
+    },
+    handler: context
+  };
+}
+
+/**
+ * Escape a value for use in HTML
+ */
+export function escapeHtml(value: unknown): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Render a key/value table
+ */
+function renderTable(values: Record<string, unknown>): string {
+  const entries = Object.entries(values);
+  if (entries.length === 0) {
+    return '<p class="empty">None</p>';
+  }
+
+  const rows = entries.map(([key, value]) => {
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    return `<tr><th>${escapeHtml(key)}</th><td>${escapeHtml(text)}</td></tr>`;
+  });
+
+  return `<table>${rows.join('')}</table>`;
+}
+
+/**
+ * Render the request body
+ */
+function renderBody(body: unknown): string {
+  const empty = body === undefined || body === null || (typeof body === 'object' && Object.keys(body as object).length === 0);
+  if (empty) {
+    return '<p class="empty">None</p>';
+  }
+
+  const text = typeof body === 'string' ? body : JSON.stringify(body, null, 2);
+  return `<pre>${escapeHtml(text)}</pre>`;
+}
+
+/**
+ * Render a stack frame with its source excerpt
+ */
+function renderFrame(frame: StackFrame): string {
+  const location = `${escapeHtml(frame.file)}:${frame.line}:${frame.column}`;
+  let html = `<li><div class="frame"><strong>${escapeHtml(frame.fn)}</strong> <span>${location}</span></div>`;
+
+  if (frame.source) {
+    const lines = frame.source.map((source) => {
+      const className = source.current ? ' class="current"' : '';
+      return `<span${className}><b>${source.line}</b>${escapeHtml(source.code)}</span>`;
+    });
+    html += `<pre>${lines.join('\n')}</pre>`;
+  }
+
+  return html + '</li>';
+}
+
+/**
+ * Render the development error page
+ * @param report The error report built by buildErrorReport
+ */
+export function renderErrorPage(report: ErrorReport): string {
+  const { error, request, handler } = report;
+  const title = `${error.status} ${STATUS_CODES[error.status] || 'Error'}`;
+
+  const chain = handler
+    ? `<p>Raised by ${escapeHtml(handler.type)} <strong>${escapeHtml(handler.name)}</strong> at position ${handler.position} of ${handler.total} in the middleware chain.</p>`
+    : '<p class="empty">Unknown</p>';
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)}: ${escapeHtml(error.message)}</title>
+  <style>
+    body { font-family: -apple-system, Arial, sans-serif; margin: 0; color: #222; }
+    header { background: #b3261e; color: #fff; padding: 20px 30px; }
+    header h1 { margin: 0 0 8px; font-size: 22px; }
+    header p { margin: 0; font-size: 16px; white-space: pre-wrap; }
+    main { padding: 10px 30px 30px; }
+    h2 { font-size: 17px; border-bottom: 1px solid #ddd; padding-bottom: 4px; margin-top: 28px; }
+    ol { padding-left: 20px; }
+    li { margin-bottom: 12px; }
+    .frame span { color: #666; font-family: monospace; }
+    pre { background: #f6f6f6; padding: 8px 0; overflow-x: auto; font-size: 13px; }
+    pre span { display: block; padding: 0 10px; }
+    pre span b { display: inline-block; width: 48px; color: #999; font-weight: normal; }
+    pre span.current { background: #fde7e5; }
+    table { border-collapse: collapse; font-size: 13px; }
+    th, td { text-align: left; vertical-align: top; padding: 3px 12px 3px 0; font-family: monospace; }
+    th { color: #555; }
+    .empty { color: #999; }
+  </style>
+</head>
+<body>
+  <header>
+    <h1>${escapeHtml(error.name)} (${escapeHtml(title)})</h1>
+    <p>${escapeHtml(error.message)}</p>
+  </header>
+  <main>
+    <h2>Middleware Chain</h2>
+    ${chain}
+    <h2>Stack Trace</h2>
+    <ol>${error.stack.map(renderFrame).join('')}</ol>
+    <h2>Request</h2>
+    <p><strong>${escapeHtml(request.method)}</strong> ${escapeHtml(request.url)}</p>
+    <h2>Headers</h2>
+    ${renderTable(request.headers)}
+    <h2>Params</h2>
+    ${renderTable(request.params)}
+    <h2>Query</h2>
+    ${renderTable(request.query)}
+    <h2>Body</h2>
+    ${renderBody(request.body)}
+  </main>
+</body>
+</html>`;
+}
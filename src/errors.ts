@@ -0,0 +1,342 @@
+import { STATUS_CODES, ServerResponse } from 'http';
+
+/**
+ * Options accepted by HttpError and its subclasses
+ */
+export interface HttpErrorOptions {
+  /** Whether the message is safe to send to the client (defaults to true for 4xx) */
+  expose?: boolean;
+  /** Extra headers to set on the error response */
+  headers?: Record<string, string | number | string[]>;
+  /** Additional machine-readable details, sent as problem details extension members */
+  details?: Record<string, any>;
+  /** URI identifying the problem type, used as the problem details `type` */
+  type?: string;
+  /** The underlying error, if any */
+  cause?: unknown;
+}
+
+/**
+ * Base class for errors that map to an HTTP status code.
+ * Throw it (or pass it to `next()`) from any handler and the
+ * default error handler will reply with the matching status.
+ */
+export class HttpError extends Error {
+  public readonly status: number;
+  public readonly expose: boolean;
+  public readonly headers: Record<string, string | number | string[]>;
+  public readonly details?: Record<string, any>;
+  public readonly type?: string;
+  public readonly cause?: unknown;
+
+  constructor(status: number, message?: string, options: HttpErrorOptions = {}) {
+    // Only error statuses make sense here, anything else becomes a 500
+    const code = status >= 400 && status < 600 ? status : 500;
+
+    super(message || STATUS_CODES[code] || 'Unknown Error');
+
+    this.name = new.target.name;
+    this.status = code;
+    this.expose = options.expose ?? code < 500;
+    this.headers = options.headers || {};
+    this.details = options.details;
+    this.type = options.type;
+    this.cause = options.cause;
+  }
+
+  /**
+   * Alias of `status`, for code that reads `err.statusCode`
+   */
+  get statusCode(): number {
+    return this.status;
+  }
+}
+
+/** 400 Bad Request */
+export class BadRequestError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(400, message, options);
+  }
+}
+
+/** 401 Unauthorized */
+export class UnauthorizedError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(401, message, options);
+  }
+}
+
+/** 403 Forbidden */
+export class ForbiddenError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(403, message, options);
+  }
+}
+
+/** 404 Not Found */
+export class NotFoundError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(404, message, options);
+  }
+}
+
+/** 405 Method Not Allowed */
+export class MethodNotAllowedError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(405, message, options);
+  }
+}
+
+/** 406 Not Acceptable */
+export class NotAcceptableError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(406, message, options);
+  }
+}
+
+/** 409 Conflict */
+export class ConflictError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(409, message, options);
+  }
+}
+
+/** 413 Payload Too Large */
+export class PayloadTooLargeError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(413, message, options);
+  }
+}
+
+/** 415 Unsupported Media Type */
+export class UnsupportedMediaTypeError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(415, message, options);
+  }
+}
+
+/** 416 Range Not Satisfiable */
+export class RangeNotSatisfiableError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(416, message, options);
+  }
+}
+
+/** 422 Unprocessable Entity */
+export class UnprocessableEntityError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(422, message, options);
+  }
+}
+
+/** 429 Too Many Requests */
+export class TooManyRequestsError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(429, message, options);
+  }
+}
+
+/** 500 Internal Server Error */
+export class InternalServerError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(500, message, options);
+  }
+}
+
+/** 501 Not Implemented */
+export class NotImplementedError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(501, message, options);
+  }
+}
+
+/** 502 Bad Gateway */
+export class BadGatewayError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(502, message, options);
+  }
+}
+
+/** 503 Service Unavailable */
+export class ServiceUnavailableError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(503, message, options);
+  }
+}
+
+/** 504 Gateway Timeout */
+export class GatewayTimeoutError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(504, message, options);
+  }
+}
+
+/**
+ * Subclasses by status code, used by createHttpError
+ */
+const ERROR_CLASSES: Record<number, new (message?: string, options?: HttpErrorOptions) => HttpError> = {
+  400: BadRequestError,
+  401: UnauthorizedError,
+  403: ForbiddenError,
+  404: NotFoundError,
+  405: MethodNotAllowedError,
+  406: NotAcceptableError,
+  409: ConflictError,
+  413: PayloadTooLargeError,
+  415: UnsupportedMediaTypeError,
+  416: RangeNotSatisfiableError,
+  422: UnprocessableEntityError,
+  429: TooManyRequestsError,
+  500: InternalServerError,
+  501: NotImplementedError,
+  502: BadGatewayError,
+  503: ServiceUnavailableError,
+  504: GatewayTimeoutError
+};
+
+/**
+ * Create an HttpError for a status code, using the matching subclass when there is one
+ * @param status The HTTP status code
+ * @param message Optional error message (defaults to the status text)
+ * @param options Additional error options
+ * @example
+ * throw createHttpError(404, 'User not found');
+ */
+export function createHttpError(status: number, message?: string, options?: HttpErrorOptions): HttpError {
+  const ErrorClass = ERROR_CLASSES[status];
+  return ErrorClass ? new ErrorClass(message, options) : new HttpError(status, message, options);
+}
+
+/**
+ * Check whether a value is an HttpError
+ */
+export function isHttpError(err: unknown): err is HttpError {
+  return err instanceof HttpError;
+}
+
+/**
+ * Get the response status for an error.
+ * Reads `status` or `statusCode` and falls back to 500 for anything
+ * that isn't a 4xx or 5xx code.
+ */
+export function getErrorStatus(err: any): number {
+  const status = err && (err.status ?? err.statusCode);
+  return typeof status === 'number' && status >= 400 && status < 600 ? status : 500;
+}
+
+/**
+ * Get the message that is safe to send to the client for an error.
+ * Messages of 5xx errors are replaced by the status text unless `expose` is set.
+ */
+export function getErrorMessage(err: any, status: number = getErrorStatus(err)): string {
+  const fallback = STATUS_CODES[status] || 'Error';
+  return isExposed(err, status) && err?.message ? String(err.message) : fallback;
+}
+
+/**
+ * Whether an error's message and details are safe to send to the client.
+ * Uses the error's `expose` flag, defaulting to true for 4xx statuses.
+ */
+export function isExposed(err: any, status: number = getErrorStatus(err)): boolean {
+  return typeof err?.expose === 'boolean' ? err.expose : status < 500;
+}
+
+/**
+ * Set the extra headers carried by an error (e.g. Retry-After, WWW-Authenticate)
+ * @param res The response to set the headers on
+ * @param err The error
+ */
+export function setErrorHeaders(res: ServerResponse, err: any): void {
+  if (err && err.headers && typeof err.headers === 'object') {
+    Object.entries(err.headers).forEach(([name, value]) => {
+      res.setHeader(name, value as string | number | string[]);
+    });
+  }
+}
+
+/**
+ * RFC 7807 problem details object
+ */
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  instance?: string;
+  [extension: string]: any;
+}
+
+/**
+ * Options for building problem details responses
+ */
+export interface ProblemDetailsOptions {
+  /**
+   * Base URI for problem types. When set, errors without their own `type`
+   * get `${typeBase}/${status}` instead of `about:blank`.
+   */
+  typeBase?: string;
+}
+
+/**
+ * Members defined by RFC 7807 that extensions may not override
+ */
+const PROBLEM_MEMBERS = ['type', 'title', 'status', 'detail', 'instance'];
+
+/**
+ * Build an RFC 7807 problem details object from an error
+ * @param err The error to describe
+ * @param options.instance URI of the request that caused the problem
+ * @param options.production Hide messages that aren't exposed (5xx) when true
+ * @param options.typeBase Base URI for problem types
+ */
+export function toProblemDetails(
+  err: any,
+  options: ProblemDetailsOptions & { instance?: string; production?: boolean } = {}
+): ProblemDetails {
+  const status = getErrorStatus(err);
+  const title = STATUS_CODES[status] || 'Error';
+
+  let type = 'about:blank';
+  if (err instanceof HttpError && err.type) {
+    type = err.type;
+  } else if (options.typeBase) {
+    type = `${options.typeBase.replace(/\/+$/, '')}/${status}`;
+  }
+
+  const problem: ProblemDetails = { type, title, status };
+
+  // Internal messages and details are only revealed outside production
+  const reveal = !options.production || isExposed(err, status);
+
+  if (reveal && err && err.message && err.message !== title) {
+    problem.detail = String(err.message);
+  }
+
+  if (options.instance) {
+    problem.instance = options.instance;
+  }
+
+  // Details become extension members, without overriding the standard members
+  if (reveal && err && err.details && typeof err.details === 'object') {
+    Object.entries(err.details).forEach(([key, value]) => {
+      if (!PROBLEM_MEMBERS.includes(key)) {
+        problem[key] = value;
+      }
+    });
+  }
+
+  return problem;
+}
+
+/**
+ * Send a problem details object as an `application/problem+json` response
+ * @param res The response to send
+ * @param problem The problem details
+ */
+export function sendProblem(res: ServerResponse, problem: ProblemDetails): void {
+  const body = JSON.stringify(problem);
+  res.statusCode = problem.status;
+  res.setHeader('Content-Type', 'application/problem+json; charset=utf-8');
+  res.setHeader('Content-Length', Buffer.byteLength(body));
+  res.end(body);
+}
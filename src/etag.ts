@@ -0,0 +1,103 @@
+import { createHash } from 'crypto';
+import { IncomingHttpHeaders, OutgoingHttpHeader } from 'http';
+
+/**
+ * Custom ETag generator, set with `app.set('etag', fn)`.
+ * Returns the complete ETag (including quotes), or undefined to send none.
+ */
+export type ETagFunction = (body: Buffer | string) => string | undefined;
+
+/**
+ * Value of the `etag` application setting:
+ * `true`/`'weak'` for weak ETags, `'strong'` for strong ETags,
+ * `false` to disable them, or a custom generator
+ */
+export type ETagSetting = boolean | 'weak' | 'strong' | ETagFunction;
+
+/**
+ * Generate an ETag for a response body from its length and SHA-1 hash
+ * @param body The response body
+ * @param weak Generate a weak (`W/"..."`) ETag
+ */
+export function generateETag(body: Buffer | string, weak: boolean = false): string {
+  const length = typeof body === 'string' ? Buffer.byteLength(body) : body.length;
+  const hash = createHash('sha1').update(body).digest('base64').substring(0, 27);
+  const tag = `"${length.toString(16)}-${hash}"`;
+  return weak ? `W/${tag}` : tag;
+}
+
+/**
+ * Get the ETag generator for an `etag` setting
+ * @returns The generator, or undefined when ETags are disabled
+ */
+export function compileETag(setting: ETagSetting | undefined): ETagFunction | undefined {
+  if (typeof setting === 'function') {
+    return setting;
+  }
+  if (setting === 'strong') {
+    return body => generateETag(body, false);
+  }
+  if (setting === true || setting === 'weak') {
+    return body => generateETag(body, true);
+  }
+  return undefined;
+}
+
+/**
+ * Parse a comma separated list of ETags, such as an If-None-Match header
+ */
+function parseETagList(header: string): string[] {
+  return header.split(',').map(tag => tag.trim()).filter(Boolean);
+}
+
+/**
+ * Strip the weak indicator, If-None-Match uses the weak comparison
+ */
+function opaqueTag(tag: string): string {
+  return tag.startsWith('W/') ? tag.slice(2) : tag;
+}
+
+/**
+ * Check whether the client's cached copy is still current, going by the
+ * request's If-None-Match/If-Modified-Since headers and the response's
+ * ETag/Last-Modified headers.
+ * @param reqHeaders The request headers
+ * @param resHeaders The response headers (`etag` and `last-modified`)
+ */
+export function isFresh(reqHeaders: IncomingHttpHeaders, resHeaders: Record<string, OutgoingHttpHeader | undefined>): boolean {
+  const modifiedSince = reqHeaders['if-modified-since'];
+  const noneMatch = reqHeaders['if-none-match'];
+
+  // Unconditional request
+  if (!modifiedSince && !noneMatch) {
+    return false;
+  }
+
+  // The client asked to revalidate end-to-end
+  const cacheControl = reqHeaders['cache-control'];
+  if (cacheControl && /(?:^|,)\s*no-cache\s*(?:,|$)/.test(cacheControl)) {
+    return false;
+  }
+
+  // If-None-Match takes precedence over If-Modified-Since
+  if (noneMatch && noneMatch.trim() !== '*') {
+    const etag = resHeaders['etag'];
+    if (typeof etag !== 'string') {
+      return false;
+    }
+    const current = opaqueTag(etag);
+    return parseETagList(noneMatch).some(tag => opaqueTag(tag) === current);
+  }
+
+  if (modifiedSince && !noneMatch) {
+    const lastModified = resHeaders['last-modified'];
+    if (typeof lastModified !== 'string') {
+      return false;
+    }
+    const modified = Date.parse(lastModified);
+    const since = Date.parse(modifiedSince);
+    return !isNaN(modified) && !isNaN(since) && modified <= since;
+  }
+
+  return true;
+}
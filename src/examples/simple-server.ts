@@ -207,28 +207,26 @@ productsRouter.post('/', (req, res) => {
 productsRouter.routes.forEach(route => {
   const path = `/api/products${route.path === '/' ? '' : route.path}`;
 
-  // Process each handler individually
-  route.handlers.forEach(handler => {
-    switch (route.method.toUpperCase()) {
-      case 'GET':
-        app.get(path, handler);
-        break;
-      case 'POST':
-        app.post(path, handler);
-        break;
-      case 'PUT':
-        app.put(path, handler);
-        break;
-      case 'DELETE':
-        app.delete(path, handler);
-        break;
-      case 'PATCH':
-        app.patch(path, handler);
-        break;
-      default:
-        Application.logger.warn(`Unsupported HTTP method: ${route.method}`);
-    }
-  });
+  // Register all handlers together so they run as one route
+  switch (route.method.toUpperCase()) {
+    case 'GET':
+      app.get(path, ...route.handlers);
+      break;
+    case 'POST':
+      app.post(path, ...route.handlers);
+      break;
+    case 'PUT':
+      app.put(path, ...route.handlers);
+      break;
+    case 'DELETE':
+      app.delete(path, ...route.handlers);
+      break;
+    case 'PATCH':
+      app.patch(path, ...route.handlers);
+      break;
+    default:
+      Application.logger.warn(`Unsupported HTTP method: ${route.method}`);
+  }
 });
 
 // Error handling route
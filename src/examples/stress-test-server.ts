@@ -1,4 +1,7 @@
-import express, { Application } from '../index';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import express, { Application, FileCache, middleware } from '../index';
 
 // Create an optimized server for stress testing
 const app = express();
@@ -29,6 +32,23 @@ app.get('/users/:id', (req, res) => {
   });
 });
 
+// The same small stylesheet, served from disk and from the file cache
+const publicDir = fs.mkdtempSync(path.join(os.tmpdir(), 'stress-static-'));
+const stylesheet = 'body { margin: 0; font-family: sans-serif; }\n'.repeat(40);
+fs.mkdirSync(path.join(publicDir, 'disk', 'static'), { recursive: true });
+fs.mkdirSync(path.join(publicDir, 'memory', 'cached'), { recursive: true });
+fs.writeFileSync(path.join(publicDir, 'disk', 'static', 'style.css'), stylesheet);
+fs.writeFileSync(path.join(publicDir, 'memory', 'cached', 'style.css'), stylesheet);
+
+const fileCache = new FileCache({ watch: process.argv.includes('--watch') });
+app.use(middleware.serveStatic(path.join(publicDir, 'disk')));
+app.use(middleware.serveStatic(path.join(publicDir, 'memory'), { cache: fileCache }));
+
+// File cache counters
+app.get('/cache-stats', (req, res) => {
+  res.json(fileCache.stats());
+});
+
 // Echo route - returns whatever was sent in the request body
 app.post('/echo', (req, res) => {
   res.json(req.body || { message: 'No body provided' });
@@ -44,5 +64,8 @@ app.listen(PORT, () => {
   console.log('  GET  /json - JSON response');
   console.log('  GET  /users/:id - Route with parameters');
   console.log('  POST /echo - Echo request body');
+  console.log('  GET  /static/style.css - Static file read from disk');
+  console.log('  GET  /cached/style.css - Static file from the file cache');
+  console.log('  GET  /cache-stats - File cache counters');
 });
 
@@ -0,0 +1,222 @@
+import * as fs from 'fs';
+import { parseBytes } from './bodyParser';
+import { lookupMimeType } from './mime';
+import { LoadedFile, statTag } from './send';
+
+/**
+ * Options for `FileCache`
+ */
+export interface FileCacheOptions {
+  /** Total size of the cached files, in bytes or as a string such as `'10mb'` (default `'10mb'`) */
+  maxSize?: number | string;
+  /** Larger files are always read from disk (default `'1mb'`, and never more than `maxSize`) */
+  maxFileSize?: number | string;
+  /**
+   * Drop files from the cache when `fs.watch` reports a change (default false).
+   * Otherwise every hit checks the file's mtime and size with `fs.stat`, which
+   * still saves opening and reading it.
+   */
+  watch?: boolean;
+}
+
+/**
+ * A file held in the cache
+ */
+export interface CachedFile extends LoadedFile {
+  path: string;
+  stats: fs.Stats;
+}
+
+/**
+ * Counters of a `FileCache`
+ */
+export interface FileCacheStats {
+  /** Files sent from memory */
+  hits: number;
+  /** Files that were not cached, or had changed, and were read from disk */
+  misses: number;
+  /** Files dropped to stay within `maxSize`, least recently used first */
+  evictions: number;
+  /** Files dropped because they changed or were removed */
+  invalidations: number;
+  /** Number of cached files */
+  entries: number;
+  /** Total size of the cached files in bytes */
+  size: number;
+}
+
+/**
+ * In-memory cache of small static files for `serveStatic`, holding their
+ * contents, ETag, Last-Modified and Content-Type. When the files take up
+ * more than `maxSize`, the least recently used ones are dropped.
+ * @example
+ * const cache = new FileCache({ maxSize: '50mb', watch: true });
+ * app.use(express.static('public', { cache }));
+ * app.get('/metrics/static', (req, res) => res.json(cache.stats()));
+ */
+export class FileCache {
+  private readonly maxSize: number;
+  private readonly maxFileSize: number;
+  private readonly watch: boolean;
+  // Map iteration follows insertion order, so the first entry is the least recently used
+  private entries = new Map<string, CachedFile & { watcher?: fs.FSWatcher }>();
+  private loading = new Map<string, Promise<CachedFile | undefined>>();
+  private size = 0;
+  private counters = { hits: 0, misses: 0, evictions: 0, invalidations: 0 };
+
+  constructor(options: FileCacheOptions = {}) {
+    this.maxSize = parseBytes(options.maxSize !== undefined ? options.maxSize : '10mb');
+    this.maxFileSize = Math.min(parseBytes(options.maxFileSize !== undefined ? options.maxFileSize : '1mb'), this.maxSize);
+    this.watch = options.watch === true;
+  }
+
+  /**
+   * Get a cached file if it is still current, counting a hit
+   * @param filePath Absolute path of the file
+   * @param stats The file's current stats, if known; otherwise they are checked
+   * with `fs.stat`, unless the cache watches files
+   */
+  public async get(filePath: string, stats?: fs.Stats): Promise<CachedFile | undefined> {
+    const entry = this.entries.get(filePath);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (stats || !this.watch) {
+      const current = stats || await fs.promises.stat(filePath).catch(() => undefined);
+      if (!current || current.mtimeMs !== entry.stats.mtimeMs || current.size !== entry.stats.size) {
+        this.invalidate(filePath);
+        return undefined;
+      }
+    }
+
+    // Move it to the end, as the most recently used
+    this.entries.delete(filePath);
+    this.entries.set(filePath, entry);
+    this.counters.hits++;
+    return entry;
+  }
+
+  /**
+   * Read a file into the cache, counting a miss. Files larger than
+   * `maxFileSize`, and files that change while they are read, are not cached.
+   * @param filePath Absolute path of the file
+   * @param stats The file's stats
+   * @returns The cached file, or undefined if it should be read from disk
+   */
+  public load(filePath: string, stats: fs.Stats): Promise<CachedFile | undefined> {
+    this.counters.misses++;
+    if (stats.size > this.maxFileSize) {
+      return Promise.resolve(undefined);
+    }
+
+    // Many requests for a file that just changed only read it once
+    const pending = this.loading.get(filePath);
+    if (pending) {
+      return pending;
+    }
+
+    const promise = this.read(filePath, stats).finally(() => this.loading.delete(filePath));
+    this.loading.set(filePath, promise);
+    return promise;
+  }
+
+  /**
+   * Drop a file from the cache
+   * @returns Whether it was cached
+   */
+  public delete(filePath: string): boolean {
+    const entry = this.entries.get(filePath);
+    if (!entry) {
+      return false;
+    }
+    if (entry.watcher) {
+      entry.watcher.close();
+    }
+    this.entries.delete(filePath);
+    this.size -= entry.body.length;
+    return true;
+  }
+
+  /**
+   * Drop all files from the cache
+   */
+  public clear(): void {
+    Array.from(this.entries.keys()).forEach(filePath => this.delete(filePath));
+  }
+
+  /**
+   * Get the cache's counters
+   */
+  public stats(): FileCacheStats {
+    return { ...this.counters, entries: this.entries.size, size: this.size };
+  }
+
+  private invalidate(filePath: string): void {
+    if (this.delete(filePath)) {
+      this.counters.invalidations++;
+    }
+  }
+
+  private async read(filePath: string, stats: fs.Stats): Promise<CachedFile | undefined> {
+    // Watch before reading, so a change during the read isn't missed
+    let changed = false;
+    let watcher: fs.FSWatcher | undefined;
+    if (this.watch) {
+      const onChange = () => {
+        changed = true;
+        this.invalidate(filePath);
+      };
+      watcher = fs.watch(filePath, { persistent: false }, onChange);
+      watcher.on('error', onChange);
+    }
+
+    // Stat the open file again after reading: a rewrite of the same size
+    // only shows in the mtime
+    let body: Buffer;
+    let current: fs.Stats;
+    try {
+      const handle = await fs.promises.open(filePath, 'r');
+      try {
+        body = await handle.readFile();
+        current = await handle.stat();
+      } finally {
+        await handle.close();
+      }
+    } catch (err) {
+      if (watcher) {
+        watcher.close();
+      }
+      throw err;
+    }
+
+    if (changed || body.length !== stats.size || current.size !== stats.size || current.mtimeMs !== stats.mtimeMs) {
+      if (watcher) {
+        watcher.close();
+      }
+      return undefined;
+    }
+
+    const entry = {
+      path: filePath,
+      stats,
+      body,
+      etag: statTag(stats),
+      lastModified: stats.mtime.toUTCString(),
+      type: lookupMimeType(filePath) || 'application/octet-stream',
+      watcher
+    };
+
+    this.delete(filePath);
+    this.entries.set(filePath, entry);
+    this.size += body.length;
+
+    while (this.size > this.maxSize) {
+      const [oldest] = this.entries.keys();
+      this.delete(oldest);
+      this.counters.evictions++;
+    }
+
+    return entry;
+  }
+}
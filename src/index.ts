@@ -13,12 +13,72 @@ export type {
   Middleware,
   RouteHandler,
   RequestHandler,
+  ErrorHandlerMiddleware,
+  ApplicationSettings,
   DebugCategory
 } from './Application';
 
 // Re-export utility functions
 export { isValidCategory } from './Application';
 
+// Re-export HTTP errors
+export {
+  HttpError,
+  BadRequestError,
+  UnauthorizedError,
+  ForbiddenError,
+  NotFoundError,
+  MethodNotAllowedError,
+  NotAcceptableError,
+  ConflictError,
+  PayloadTooLargeError,
+  UnsupportedMediaTypeError,
+  RangeNotSatisfiableError,
+  UnprocessableEntityError,
+  TooManyRequestsError,
+  InternalServerError,
+  NotImplementedError,
+  BadGatewayError,
+  ServiceUnavailableError,
+  GatewayTimeoutError,
+  createHttpError,
+  isHttpError,
+  toProblemDetails
+} from './errors';
+export type { HttpErrorOptions, ProblemDetails, ProblemDetailsOptions } from './errors';
+export type { FormatHandlers } from './response';
+
+// Re-export cookie helpers
+export { parseCookies, serializeCookie, sign, unsign } from './cookies';
+export type { CookieOptions } from './cookies';
+
+// Re-export sessions and their stores
+export { Session, MemoryStore, FileStore } from './session';
+export type { SessionStore, SessionData, SessionOptions } from './session';
+
+// Re-export body parsing and multipart upload handling
+export { parseBytes } from './bodyParser';
+export type { BodyParserOptions, BodyTypeOption, JsonOptions, TextOptions, UrlencodedOptions } from './bodyParser';
+export type { VerifySignatureOptions } from './signature';
+export type { CorsOptions, CorsOrigin, CorsStaticOrigin } from './cors';
+export type { LoggerOptions, TokenFunction, FormatFunction } from './logger';
+
+// Re-export structured logging and its transports
+export { JsonLogger, StdoutTransport, FileTransport, MemoryTransport, LOG_LEVELS } from './logging';
+export type { Logger, LogLevel, LogFields, LogRecord, LogTransport, JsonLoggerOptions, FileTransportOptions } from './logging';
+
+// Re-export static file options, directory listings and the file cache
+export type { ServeStaticOptions } from './middleware';
+export type { ServeIndexOptions, DirectoryEntry, DirectorySortKey } from './serveIndex';
+export { FileCache } from './fileCache';
+export type { FileCacheOptions, FileCacheStats, CachedFile } from './fileCache';
+
+// Re-export response compression helpers
+export { isCompressible, shouldCompress } from './compression';
+export type { CompressionOptions } from './compression';
+export { DiskStorage } from './multipart';
+export type { UploadedFile, FileInfo, StorageEngine, MultipartOptions, MultipartLimits } from './multipart';
+
 /**
  * Creates a new application instance
  * @returns A new Application instance
@@ -0,0 +1,61 @@
+import { Readable } from 'stream';
+import * as zlib from 'zlib';
+import type { Request } from './Application';
+import { BadRequestError, UnsupportedMediaTypeError } from './errors';
+
+/**
+ * Decompressors for the supported Content-Encodings
+ */
+const DECODERS: Record<string, () => zlib.Gunzip | zlib.Inflate | zlib.BrotliDecompress> = {
+  'gzip': () => zlib.createGunzip(),
+  'x-gzip': () => zlib.createGunzip(),
+  'deflate': () => zlib.createInflate(),
+  'br': () => zlib.createBrotliDecompress()
+};
+
+/**
+ * Get the Content-Encodings of a request body, in the order they were applied
+ */
+export function contentEncodings(req: Request): string[] {
+  const header = req.headers['content-encoding'] || '';
+  return header.split(',')
+    .map(encoding => encoding.trim().toLowerCase())
+    .filter(encoding => encoding && encoding !== 'identity');
+}
+
+/**
+ * Get the decoded request body as a stream. Compressed bodies are piped
+ * through zlib; size limits should be applied to this stream, so they count
+ * inflated bytes rather than what was sent over the wire.
+ * Errors of the decompressors are forwarded to the returned stream (see
+ * `inflateError`); errors of the request itself are not.
+ * @param req The request
+ * @param inflate Whether compressed bodies are accepted
+ * @throws UnsupportedMediaTypeError (415) for unknown encodings, or any encoding when `inflate` is false
+ */
+export function decodeBody(req: Request, inflate: boolean = true): Readable {
+  const encodings = contentEncodings(req);
+
+  for (const encoding of encodings) {
+    if (!inflate || !DECODERS[encoding]) {
+      throw new UnsupportedMediaTypeError(`Unsupported content encoding "${encoding}"`, { details: { encoding } });
+    }
+  }
+
+  // The last encoding listed was applied last, so it is undone first
+  return encodings.reduceRight<Readable>((source, encoding) => {
+    const decoder = DECODERS[encoding]();
+    // pipe() doesn't forward errors, pass them down to the last decoder
+    if (source !== req) {
+      source.on('error', err => decoder.destroy(err));
+    }
+    return source.pipe(decoder);
+  }, req);
+}
+
+/**
+ * Wrap a decompression error, so it is answered with 400 instead of 500
+ */
+export function inflateError(err: Error): BadRequestError {
+  return new BadRequestError('Invalid compressed body', { cause: err });
+}
@@ -0,0 +1,254 @@
+import type { Middleware, Request, Response, NextFunction } from './Application';
+
+/**
+ * Produces the value of a `:name[arg]` token; undefined is logged as `-`
+ */
+export type TokenFunction = (req: Request, res: Response, arg?: string) => string | number | undefined;
+
+/**
+ * Builds a log line from the tokens; return undefined to log nothing
+ */
+export type FormatFunction = (tokens: Record<string, TokenFunction>, req: Request, res: Response) => string | undefined;
+
+/**
+ * Options for `middleware.logger()`
+ */
+export interface LoggerOptions {
+  /**
+   * A format string such as `':method :url :status'`, the name of a
+   * predefined format (`combined`, `common`, `short`, `tiny`, `dev`) or a
+   * function (default `':method :url :status :response-time ms'`)
+   */
+  format?: string | FormatFunction;
+  /** Don't log a request; called when the line would be written, so the status is known */
+  skip?: (req: Request, res: Response) => boolean;
+  /** Where lines are written, each followed by a newline (default: `process.stdout`) */
+  stream?: { write(line: string): unknown };
+  /**
+   * Tokens for this logger only, e.g. `{ 'request-id': req => req.id }`;
+   * they take precedence over the ones registered with `logger.token()`
+   */
+  tokens?: Record<string, TokenFunction>;
+  /** Log when the request comes in instead of when the response is sent; response tokens are `-` */
+  immediate?: boolean;
+}
+
+/**
+ * When each request started, and when its response headers were written and it finished
+ */
+interface Timings {
+  start: bigint;
+  headers?: bigint;
+  finish?: bigint;
+}
+
+const timings = new WeakMap<Request, Timings>();
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Format a date as in the Common Log Format, e.g. `10/Oct/2000:13:55:36 +0000`
+ */
+function clfDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${pad(date.getUTCDate())}/${MONTHS[date.getUTCMonth()]}/${date.getUTCFullYear()}`
+    + `:${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} +0000`;
+}
+
+/**
+ * Milliseconds between two timestamps, with the given number of decimals
+ */
+function elapsed(from: bigint, to: bigint | undefined, digits?: string): string | undefined {
+  if (to === undefined) {
+    return undefined;
+  }
+  return (Number(to - from) / 1e6).toFixed(digits !== undefined ? Number(digits) : 3);
+}
+
+/**
+ * Read a header of the request
+ */
+function requestHeader(req: Request, name: string): string | undefined {
+  const value = req.headers[name.toLowerCase()];
+  return Array.isArray(value) ? value.join(', ') : value;
+}
+
+/**
+ * Read a header of the response, once it has been sent
+ */
+function responseHeader(res: Response, name: string): string | undefined {
+  if (!res.headersSent) {
+    return undefined;
+  }
+  const value = res.getHeader(name);
+  return Array.isArray(value) ? value.join(', ') : value === undefined ? undefined : String(value);
+}
+
+/**
+ * Registered tokens, by name. Shared by every logger in the process, like
+ * the named formats below.
+ */
+const tokens: Record<string, TokenFunction> = {
+  'method': req => req.method,
+  'url': req => req.url,
+  'status': (req, res) => (res.headersSent ? res.statusCode : undefined),
+  'response-time': (req, res, digits) => {
+    const timing = timings.get(req);
+    return timing && elapsed(timing.start, timing.headers, digits);
+  },
+  'total-time': (req, res, digits) => {
+    const timing = timings.get(req);
+    return timing && elapsed(timing.start, timing.finish, digits);
+  },
+  'date': (req, res, format) => {
+    const now = new Date();
+    return format === 'iso' ? now.toISOString() : format === 'web' ? now.toUTCString() : clfDate(now);
+  },
+  'remote-addr': req => req.socket.remoteAddress,
+  'remote-user': (req) => {
+    // The user name of Basic authentication
+    const match = /^Basic\s+(\S+)$/i.exec(requestHeader(req, 'authorization') || '');
+    const credentials = match ? Buffer.from(match[1], 'base64').toString() : '';
+    return credentials.includes(':') ? credentials.slice(0, credentials.indexOf(':')) : undefined;
+  },
+  'http-version': req => req.httpVersion,
+  'referrer': req => requestHeader(req, 'referer') || requestHeader(req, 'referrer'),
+  'user-agent': req => requestHeader(req, 'user-agent'),
+  'req': (req, res, name) => (name ? requestHeader(req, name) : undefined),
+  'res': (req, res, name) => (name ? responseHeader(res, name) : undefined),
+  'res-content-length': (req, res) => responseHeader(res, 'content-length')
+};
+
+/**
+ * ANSI colors of the `dev` format, by the first digit of the status
+ */
+const STATUS_COLORS: Record<string, number> = { 5: 31, 4: 33, 3: 36, 2: 32 };
+
+/**
+ * Named formats
+ */
+const formats: Record<string, string | FormatFunction> = {
+  combined: ':remote-addr - :remote-user [:date[clf]] ":method :url HTTP/:http-version" :status :res[content-length] ":referrer" ":user-agent"',
+  common: ':remote-addr - :remote-user [:date[clf]] ":method :url HTTP/:http-version" :status :res[content-length]',
+  short: ':remote-addr :remote-user :method :url HTTP/:http-version :status :res[content-length] - :response-time ms',
+  tiny: ':method :url :status :res[content-length] - :response-time ms',
+  dev: (registered, req, res) => {
+    const status = registered.status(req, res);
+    const color = status === undefined ? 0 : STATUS_COLORS[String(status)[0]] || 0;
+    if (!devFormats[color]) {
+      devFormats[color] = compile(`:method :url \x1b[${color}m:status\x1b[0m :response-time ms - :res[content-length]`);
+    }
+    return devFormats[color](registered, req, res);
+  }
+};
+
+/**
+ * The `dev` format compiled once per status color
+ */
+const devFormats: Record<number, FormatFunction> = {};
+
+/**
+ * Matches `:name` and `:name[arg]` tokens in a format string
+ */
+const TOKEN_PATTERN = /:([-\w]{2,})(?:\[([^\]]+)\])?/g;
+
+/**
+ * Compile a format string into a format function. Unknown tokens are left
+ * as they are; tokens without a value are logged as `-`.
+ * @param format The format string
+ */
+export function compile(format: string): FormatFunction {
+  return (registered, req, res) => format.replace(TOKEN_PATTERN, (text, name: string, arg?: string) => {
+    const token = registered[name];
+    if (!token) {
+      return text;
+    }
+    const value = token(req, res, arg);
+    return value === undefined || value === null || value === '' ? '-' : String(value);
+  });
+}
+
+/**
+ * Request logging middleware, in the style of morgan. Lines are built from
+ * tokens such as `:method`, `:status`, `:response-time[digits]` and
+ * `:req[header]`; add your own with `logger.token()`.
+ * @param options Format, output stream and when to log
+ * @example
+ * app.use(middleware.logger({ format: 'combined', stream: fs.createWriteStream('access.log', { flags: 'a' }) }));
+ */
+export function logger(options: LoggerOptions = {}): Middleware {
+  const format = options.format || ':method :url :status :response-time ms';
+  const named = typeof format === 'string' ? formats[format] : undefined;
+  const formatLine = typeof format === 'function' ? format : typeof named === 'function' ? named : compile(named || format);
+  const stream = options.stream || process.stdout;
+  const registered = options.tokens ? { ...tokens, ...options.tokens } : tokens;
+
+  const log = (req: Request, res: Response) => {
+    if (options.skip && options.skip(req, res)) {
+      return;
+    }
+    const line = formatLine(registered, req, res);
+    if (line !== undefined && line !== null) {
+      stream.write(`${line}\n`);
+    }
+  };
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    // Several loggers share the timings of a request, measured from the first one
+    const timing: Timings = timings.get(req) || { start: process.hrtime.bigint() };
+    timings.set(req, timing);
+
+    if (options.immediate) {
+      log(req, res);
+      return next();
+    }
+
+    // Node writes implicit headers through writeHead too, so this catches every response
+    const writeHead = res.writeHead;
+    res.writeHead = function(this: Response, ...args: any[]) {
+      if (timing.headers === undefined) {
+        timing.headers = process.hrtime.bigint();
+      }
+      return (writeHead as (...args: any[]) => Response).apply(this, args);
+    } as typeof res.writeHead;
+
+    // 'close' without 'finish' means the client went away before the response was sent
+    let logged = false;
+    const onDone = () => {
+      if (logged) return;
+      logged = true;
+      timing.finish = process.hrtime.bigint();
+      log(req, res);
+    };
+    res.once('finish', onDone);
+    res.once('close', onDone);
+
+    return next();
+  };
+}
+
+/**
+ * Register a custom token, e.g. `logger.token('id', req => req.headers['x-request-id'])`
+ * for `:id` in formats. The token is global: every logger in the process sees
+ * it, and registering a name again replaces it. Use the `tokens` option for
+ * tokens of one logger.
+ * @param name Token name, without the colon
+ * @param fn Produces the value for a request
+ */
+logger.token = (name: string, fn: TokenFunction): typeof logger => {
+  tokens[name] = fn;
+  return logger;
+};
+
+/**
+ * Register a named format, usable as `logger({ format: name })` by every
+ * logger in the process
+ * @param name Format name
+ * @param format Format string or function
+ */
+logger.format = (name: string, format: string | FormatFunction): typeof logger => {
+  formats[name] = format;
+  return logger;
+};
+
+logger.compile = compile;
@@ -0,0 +1,404 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseBytes } from './bodyParser';
+
+/**
+ * Log levels, from the most verbose to the most severe
+ */
+export type LogLevel = 'trace' | 'debug' | 'info' | 'warn' | 'error' | 'fatal';
+
+/**
+ * Structured fields added to a log record
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Numeric value of each level; records below the logger's level are dropped
+ */
+export const LOG_LEVELS: Record<LogLevel, number> = {
+  trace: 10,
+  debug: 20,
+  info: 30,
+  warn: 40,
+  error: 50,
+  fatal: 60
+};
+
+/**
+ * The logger an application writes to. Plug in your own object with these
+ * methods through `app.set('logger', ...)`; without `child()`, request
+ * loggers are the logger itself and lose their bound fields.
+ */
+export interface Logger {
+  trace(message: string, fields?: LogFields | Error): void;
+  debug(message: string, fields?: LogFields | Error): void;
+  info(message: string, fields?: LogFields | Error): void;
+  warn(message: string, fields?: LogFields | Error): void;
+  error(message: string, fields?: LogFields | Error): void;
+  fatal(message: string, fields?: LogFields | Error): void;
+  /** A logger that adds the given fields to every record */
+  child?(bindings: LogFields): Logger;
+}
+
+/**
+ * A record as written by `JsonLogger`, one JSON object per line
+ */
+export interface LogRecord {
+  level: LogLevel;
+  /** ISO 8601 timestamp */
+  time: string;
+  msg: string;
+  [field: string]: unknown;
+}
+
+/**
+ * Where a `JsonLogger` writes its records
+ */
+export interface LogTransport {
+  /**
+   * Write a record
+   * @param line The record serialized as JSON, without a trailing newline
+   * @param record The record, after redaction
+   */
+  write(line: string, record: LogRecord): void;
+  /** Release files or streams */
+  close?(): void;
+}
+
+/**
+ * Options for `JsonLogger`
+ */
+export interface JsonLoggerOptions {
+  /** Records below this level are dropped (default `'info'`) */
+  level?: LogLevel;
+  /** Where records are written (default: a `StdoutTransport`) */
+  transports?: LogTransport[];
+  /**
+   * Paths of fields to hide, such as `'headers.authorization'`; `*` matches
+   * any key, as in `'*.password'`
+   */
+  redact?: string[];
+  /** Replaces redacted values (default `'[Redacted]'`) */
+  censor?: string;
+  /** Fields added to every record, such as the service name */
+  bindings?: LogFields;
+}
+
+/**
+ * Level, transports and redaction, shared by a logger and its children
+ */
+interface LoggerCore {
+  level: LogLevel;
+  transports: LogTransport[];
+  redact: string[][];
+  censor: string;
+}
+
+/**
+ * Turn an error into plain fields, since JSON.stringify drops its message and stack
+ */
+export function serializeError(err: Error): LogFields {
+  return { ...err, type: err.name, message: err.message, stack: err.stack };
+}
+
+/**
+ * Build the fields of a record from the extra arguments of a console-style
+ * call: an error becomes `err`, a single object is merged in, anything else
+ * is kept as `args`
+ */
+export function argsToFields(args: unknown[], fields: LogFields = {}): LogFields {
+  if (args.length === 1 && args[0] instanceof Error) {
+    return { ...fields, err: args[0] };
+  }
+  if (args.length === 1 && args[0] !== null && typeof args[0] === 'object' && !Array.isArray(args[0])) {
+    return { ...fields, ...(args[0] as LogFields) };
+  }
+  return args.length > 0 ? { ...fields, args } : fields;
+}
+
+/**
+ * Get a logger bound to the given fields, or the logger itself if it can't make children
+ */
+export function childLogger(logger: Logger, bindings: LogFields): Logger {
+  return logger.child ? logger.child(bindings) : logger;
+}
+
+/**
+ * Replace the value at a path, copying the objects along it so the caller's objects are left alone
+ */
+function redactPath(target: Record<string, unknown>, keys: string[], censor: string): void {
+  const [key, ...rest] = keys;
+  const names = key === '*' ? Object.keys(target) : [key];
+
+  for (const name of names) {
+    if (!Object.prototype.hasOwnProperty.call(target, name)) {
+      continue;
+    }
+    if (rest.length === 0) {
+      target[name] = censor;
+      continue;
+    }
+    const value = target[name];
+    if (value !== null && typeof value === 'object') {
+      const copy = Array.isArray(value) ? [...value] : { ...(value as Record<string, unknown>) };
+      target[name] = copy;
+      redactPath(copy as Record<string, unknown>, rest, censor);
+    }
+  }
+}
+
+/**
+ * Serialize a record, writing errors with their message and stack, bigints
+ * as strings and circular references as `'[Circular]'`
+ */
+function stringify(record: LogRecord): string {
+  const ancestors: unknown[] = [];
+  return JSON.stringify(record, function(this: unknown, key: string, value: unknown) {
+    if (typeof value === 'bigint') {
+      return value.toString();
+    }
+    if (value instanceof Error) {
+      value = serializeError(value);
+    }
+    if (value === null || typeof value !== 'object') {
+      return value;
+    }
+
+    // The holder is the innermost object being written, so everything after it is done
+    while (ancestors.length > 0 && ancestors[ancestors.length - 1] !== this) {
+      ancestors.pop();
+    }
+    if (ancestors.includes(value)) {
+      return '[Circular]';
+    }
+    ancestors.push(value);
+    return value;
+  });
+}
+
+/**
+ * Logger writing one JSON object per line, such as
+ * `{"level":"info","time":"2024-01-01T00:00:00.000Z","msg":"Server is running","port":3000}`.
+ * Children share their parent's level, transports and redaction.
+ * @example
+ * const logger = new JsonLogger({
+ *   level: 'debug',
+ *   redact: ['headers.authorization', 'headers.cookie'],
+ *   transports: [new StdoutTransport(), new FileTransport({ path: 'logs/app.log', maxSize: '5mb' })]
+ * });
+ * app.set('logger', logger);
+ */
+export class JsonLogger implements Logger {
+  private readonly core: LoggerCore;
+  private readonly bindings: LogFields;
+
+  constructor(options: JsonLoggerOptions = {}) {
+    const level = options.level || 'info';
+    if (!LOG_LEVELS[level]) {
+      throw new TypeError(`Unknown log level "${level}"`);
+    }
+    this.core = {
+      level,
+      transports: options.transports || [new StdoutTransport()],
+      redact: (options.redact || []).map(fieldPath => fieldPath.split('.')),
+      censor: options.censor !== undefined ? options.censor : '[Redacted]'
+    };
+    this.bindings = { ...options.bindings };
+  }
+
+  /**
+   * The lowest level written; changing it also changes it for children
+   */
+  public get level(): LogLevel {
+    return this.core.level;
+  }
+
+  public set level(level: LogLevel) {
+    if (!LOG_LEVELS[level]) {
+      throw new TypeError(`Unknown log level "${level}"`);
+    }
+    this.core.level = level;
+  }
+
+  /**
+   * Check whether records of a level are written, to skip building expensive fields
+   */
+  public isLevelEnabled(level: LogLevel): boolean {
+    return LOG_LEVELS[level] >= LOG_LEVELS[this.core.level];
+  }
+
+  public trace(message: string, fields?: LogFields | Error): void {
+    this.write('trace', message, fields);
+  }
+
+  public debug(message: string, fields?: LogFields | Error): void {
+    this.write('debug', message, fields);
+  }
+
+  public info(message: string, fields?: LogFields | Error): void {
+    this.write('info', message, fields);
+  }
+
+  public warn(message: string, fields?: LogFields | Error): void {
+    this.write('warn', message, fields);
+  }
+
+  public error(message: string, fields?: LogFields | Error): void {
+    this.write('error', message, fields);
+  }
+
+  public fatal(message: string, fields?: LogFields | Error): void {
+    this.write('fatal', message, fields);
+  }
+
+  /**
+   * Get a logger that adds the given fields to every record, e.g. `{ requestId }`
+   */
+  public child(bindings: LogFields): JsonLogger {
+    const child: JsonLogger = Object.create(JsonLogger.prototype);
+    Object.assign(child, { core: this.core, bindings: { ...this.bindings, ...bindings } });
+    return child;
+  }
+
+  /**
+   * Close the transports, e.g. the log file
+   */
+  public close(): void {
+    this.core.transports.forEach(transport => transport.close && transport.close());
+  }
+
+  private write(level: LogLevel, message: string, fields?: LogFields | Error): void {
+    if (!this.isLevelEnabled(level)) {
+      return;
+    }
+
+    const record: LogRecord = {
+      level,
+      time: new Date().toISOString(),
+      msg: message,
+      ...this.bindings,
+      ...(fields instanceof Error ? { err: fields } : fields)
+    };
+    this.core.redact.forEach(keys => redactPath(record, keys, this.core.censor));
+
+    const line = stringify(record);
+    this.core.transports.forEach(transport => transport.write(line, record));
+  }
+}
+
+/**
+ * Writes records to standard output, or another stream
+ */
+export class StdoutTransport implements LogTransport {
+  private readonly stream: { write(chunk: string): unknown };
+
+  constructor(stream: { write(chunk: string): unknown } = process.stdout) {
+    this.stream = stream;
+  }
+
+  public write(line: string): void {
+    this.stream.write(`${line}\n`);
+  }
+}
+
+/**
+ * Options for `FileTransport`
+ */
+export interface FileTransportOptions {
+  /** The log file; its directory is created if needed */
+  path: string;
+  /** Size at which the file is rotated, in bytes or as a string such as `'10mb'` (default `'10mb'`) */
+  maxSize?: number | string;
+  /** Number of rotated files kept as `app.log.1` (the newest) to `app.log.N` (default 5) */
+  maxFiles?: number;
+}
+
+/**
+ * Appends records to a file. When the next record would make it larger than
+ * `maxSize`, the file is renamed to `<path>.1`, older files move up by one
+ * and the oldest is dropped. Writes are synchronous, so records survive a
+ * crash and are in order.
+ */
+export class FileTransport implements LogTransport {
+  private readonly path: string;
+  private readonly maxSize: number;
+  private readonly maxFiles: number;
+  private fd?: number;
+  private size = 0;
+
+  constructor(options: FileTransportOptions) {
+    this.path = options.path;
+    this.maxSize = parseBytes(options.maxSize !== undefined ? options.maxSize : '10mb');
+    this.maxFiles = options.maxFiles !== undefined ? options.maxFiles : 5;
+  }
+
+  public write(line: string): void {
+    const data = `${line}\n`;
+    const length = Buffer.byteLength(data);
+
+    if (this.fd === undefined) {
+      this.open();
+    }
+    // A record larger than maxSize still goes into a file of its own
+    if (this.size > 0 && this.size + length > this.maxSize) {
+      this.rotate();
+    }
+
+    fs.writeSync(this.fd!, data);
+    this.size += length;
+  }
+
+  public close(): void {
+    if (this.fd !== undefined) {
+      fs.closeSync(this.fd);
+      this.fd = undefined;
+    }
+  }
+
+  private open(): void {
+    fs.mkdirSync(path.dirname(this.path), { recursive: true });
+    this.fd = fs.openSync(this.path, 'a');
+    this.size = fs.fstatSync(this.fd).size;
+  }
+
+  private rotate(): void {
+    this.close();
+
+    if (this.maxFiles > 0) {
+      for (let i = this.maxFiles - 1; i >= 1; i--) {
+        if (fs.existsSync(`${this.path}.${i}`)) {
+          fs.renameSync(`${this.path}.${i}`, `${this.path}.${i + 1}`);
+        }
+      }
+      fs.renameSync(this.path, `${this.path}.1`);
+    } else {
+      fs.unlinkSync(this.path);
+    }
+
+    this.open();
+  }
+}
+
+/**
+ * Keeps records in memory, for checking what was logged in tests
+ * @example
+ * const logs = new MemoryTransport();
+ * app.set('logger', new JsonLogger({ transports: [logs] }));
+ * // ... make a request
+ * expect(logs.records).toContainEqual(expect.objectContaining({ level: 'error' }));
+ */
+export class MemoryTransport implements LogTransport {
+  /** The records as they were written, parsed back from JSON */
+  public records: LogRecord[] = [];
+
+  public write(line: string): void {
+    this.records.push(JSON.parse(line));
+  }
+
+  /**
+   * Forget the records written so far
+   */
+  public clear(): void {
+    this.records = [];
+  }
+}
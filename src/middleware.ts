@@ -1,131 +1,174 @@
-import { Middleware, Request, Response, NextFunction } from './Application';
+import { Application, Middleware, Request, Response, NextFunction, ErrorHandlerMiddleware } from './Application';
 import { ServerResponse } from 'http';
+import {
+  getErrorStatus,
+  getErrorMessage,
+  setErrorHeaders,
+  sendProblem,
+  toProblemDetails,
+  ProblemDetailsOptions,
+  BadRequestError
+} from './errors';
+import { findPrecompressed, hasDotSegment, resolveFilePath, sendFileResponse, FileResponseOptions } from './send';
+import { CachedFile, FileCache } from './fileCache';
+import { lookupMimeType } from './mime';
+import { preferredMediaTypes } from './negotiation';
+import { parseCookies, unsignCookies } from './cookies';
 
-// Custom type for error handling middleware
-export type ErrorHandlerMiddleware = (err: any, req: Request, res: Response, next: NextFunction) => void;
+// Body parsers, signature checks, CORS, logging, compression, sessions and directory listings, kept in their own modules
+export { bodyParser } from './bodyParser';
+export { verifySignature } from './signature';
+export { cors } from './cors';
+export { logger } from './logger';
+export { compression } from './compression';
+export { session } from './session';
+export { serveIndex } from './serveIndex';
+
+// Error handling middleware type, re-exported for compatibility
+export type { ErrorHandlerMiddleware };
 import * as url from 'url';
-import * as querystring from 'querystring';
 import * as fs from 'fs';
 import * as path from 'path';
 
 /**
- * Body parser middleware for JSON and URL-encoded form data
+ * Cookie parser middleware, fills in `req.cookies` and `req.signedCookies`
+ * @param secret Secret used to sign and verify cookies. Pass a list to rotate
+ * secrets: cookies are signed with the first one and verified against all of them.
+ * @param options.decode Custom value decoder
  */
-export const bodyParser = {
+export function cookieParser(secret?: string | string[], options: {
+  decode?: (value: string) => string;
+} = {}): Middleware {
+  const secrets = secret === undefined ? [] : Array.isArray(secret) ? secret : [secret];
+
+  if (secrets.some(value => !value)) {
+    throw new TypeError('Cookie secrets must be non-empty strings');
+  }
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    req.secret = secrets[0];
+
+    const header = req.headers.cookie;
+    if (header) {
+      const { cookies, signedCookies } = unsignCookies(parseCookies(header, options.decode), secrets);
+      req.cookies = cookies;
+      req.signedCookies = signedCookies;
+    }
+
+    return next();
+  };
+}
+
+/**
+ * Options for `serveStatic()`
+ */
+export interface ServeStaticOptions {
+  /** Default index file for directory requests, or false to not serve one (default `index.html`) */
+  index?: string | false;
+  dotfiles?: 'allow' | 'deny' | 'ignore';
+  etag?: boolean;
+  lastModified?: boolean;
+  acceptRanges?: boolean;
+  /** Cache-Control max-age in seconds */
+  maxAge?: number;
   /**
-   * Parses JSON request bodies
+   * Add `immutable` to Cache-Control, so browsers don't revalidate before
+   * max-age runs out. Meant for hashed filenames such as `app.3f9a2c.js`.
    */
-  json(): Middleware {
-    return (req: Request, res: Response, next: NextFunction) => {
-      if (req.headers['content-type'] !== 'application/json') {
-        return next();
-      }
-
-      let body = '';
-      
-      req.on('data', (chunk) => {
-        body += chunk.toString();
-      });
-      
-      req.on('end', () => {
-        try {
-          if (body) {
-            req.body = JSON.parse(body);
-          }
-          next();
-        } catch (error) {
-          next(new Error('Invalid JSON'));
-        }
-      });
-      
-      req.on('error', (err) => {
-        next(err);
-      });
-    };
-  },
-  
+  immutable?: boolean;
   /**
-   * Parses URL-encoded form data
+   * Serve precompressed siblings (`app.js.br`, `app.js.gz`) to clients that
+   * accept them. `true` looks for br and gzip; a list sets the encodings and
+   * their order of preference.
    */
-  urlencoded(): Middleware {
-    return (req: Request, res: Response, next: NextFunction) => {
-      if (req.headers['content-type'] !== 'application/x-www-form-urlencoded') {
-        return next();
-      }
-
-      let body = '';
-      
-      req.on('data', (chunk) => {
-        body += chunk.toString();
-      });
-      
-      req.on('end', () => {
-        try {
-          req.body = querystring.parse(body);
-          next();
-        } catch (error) {
-          next(new Error('Invalid form data'));
-        }
-      });
-      
-      req.on('error', (err) => {
-        next(err);
-      });
-    };
-  }
-};
+  precompressed?: boolean | Array<'br' | 'gzip'>;
+  /** Extensions to try for paths that don't exist, e.g. `['html']` serves `about.html` for `/about` */
+  extensions?: string[];
+  /**
+   * File served for GET requests that accept `text/html` and match no file,
+   * relative to the root, e.g. `'index.html'` for single-page apps that route
+   * in the browser
+   */
+  fallback?: string;
+  /** Redirect directory requests without a trailing slash to the path with one (default true) */
+  redirect?: boolean;
+  /** Set custom headers on each file response; called with the path and stats of the requested file */
+  setHeaders?: (res: Response, filePath: string, stats: fs.Stats) => void;
+  /** Keep small files in memory, see `FileCache` */
+  cache?: FileCache;
+}
 
 /**
- * Mapping of file extensions to MIME types
+ * Stat a path, or get undefined if it doesn't exist
  */
-const MIME_TYPES: Record<string, string> = {
-  '.html': 'text/html',
-  '.js': 'text/javascript',
-  '.css': 'text/css',
-  '.json': 'application/json',
-  '.png': 'image/png',
-  '.jpg': 'image/jpeg',
-  '.jpeg': 'image/jpeg',
-  '.gif': 'image/gif',
-  '.svg': 'image/svg+xml',
-  '.ico': 'image/x-icon',
-  '.txt': 'text/plain',
-  '.pdf': 'application/pdf',
-  '.woff': 'font/woff',
-  '.woff2': 'font/woff2',
-  '.ttf': 'font/ttf',
-  '.eot': 'font/eot',
-  '.otf': 'font/otf',
-  '.mp4': 'video/mp4',
-  '.webm': 'video/webm',
-  '.mp3': 'audio/mpeg',
-  '.wav': 'audio/wav'
-};
+async function statIfExists(filePath: string): Promise<fs.Stats | undefined> {
+  try {
+    return await fs.promises.stat(filePath);
+  } catch (err: any) {
+    if (err.code === 'ENOENT') {
+      return undefined;
+    }
+    throw err;
+  }
+}
 
 /**
- * Static file middleware that serves files from a specified directory
- * @param root Directory path from which to serve static files
+ * Static file middleware that serves files from a specified directory.
+ * Files are sent with ETag and Last-Modified headers, conditional requests
+ * are answered with 304 and Range requests with partial content.
+ * @param root Directory path from which to serve static files. Pass a list to
+ * chain several directories: each path is looked up in them in order.
  * @param options Configuration options for the static middleware
  */
-export function serveStatic(root: string, options: {
-  index?: string | false;
-  dotfiles?: 'allow' | 'deny' | 'ignore';
-  etag?: boolean;
-  maxAge?: number;
-} = {}): Middleware {
+export function serveStatic(root: string | string[], options: ServeStaticOptions = {}): Middleware {
   const defaultOptions = {
     index: 'index.html',
     dotfiles: 'ignore' as const,
     etag: true,
-    maxAge: 0
+    lastModified: true,
+    acceptRanges: true,
+    maxAge: 0,
+    immutable: false,
+    precompressed: false,
+    extensions: [] as string[],
+    redirect: true
   };
 
   const staticOptions = { ...defaultOptions, ...options };
+  const extensions = staticOptions.extensions.map(ext => ext.replace(/^\./, ''));
 
-  // Normalize and resolve the root directory path
-  const rootPath = path.resolve(root);
+  // Normalize and resolve the root directory paths
+  const rootPaths = (Array.isArray(root) ? root : [root]).map(dir => path.resolve(dir));
+  if (rootPaths.length === 0) {
+    throw new TypeError('serveStatic() requires a root directory');
+  }
 
-  return (req: Request, res: Response, next: NextFunction) => {
+  /**
+   * Find the file to send for a path in one root: the file itself, the
+   * directory's index file or the path with one of the extensions appended
+   */
+  const findFile = async (absolutePath: string): Promise<{ path: string; stats: fs.Stats } | 'directory' | undefined> => {
+    const stats = await statIfExists(absolutePath);
+
+    if (!stats) {
+      for (const ext of extensions) {
+        const candidate = `${absolutePath}.${ext}`;
+        const candidateStats = await statIfExists(candidate);
+        if (candidateStats && candidateStats.isFile()) {
+          return { path: candidate, stats: candidateStats };
+        }
+      }
+      return undefined;
+    }
+
+    if (stats.isDirectory()) {
+      return 'directory';
+    }
+
+    return stats.isFile() ? { path: absolutePath, stats } : undefined;
+  };
+
+  return async (req: Request, res: Response, next: NextFunction) => {
     // Skip non-GET and non-HEAD requests
     if (req.method !== 'GET' && req.method !== 'HEAD') {
       return next();
@@ -135,25 +178,25 @@ export function serveStatic(root: string, options: {
     const parsedUrl = url.parse(req.url || '');
     const pathname = parsedUrl.pathname || '';
     
-    // Decode and normalize the path
-    let filePath = path.normalize(decodeURIComponent(pathname));
-    
-    // Prevent directory traversal attacks
-    if (filePath.includes('..')) {
-      return next(new Error('Invalid file path'));
+    // Decode the path, rejecting malformed escapes with a 400
+    let decoded: string;
+    try {
+      decoded = decodeURIComponent(pathname);
+    } catch (err) {
+      return next(new BadRequestError('Invalid path', { cause: err }));
     }
-    
-    // Remove leading slash if present
-    if (filePath.startsWith('/')) {
-      filePath = filePath.substring(1);
+    const filePath = decoded.replace(/^[\\/]+/, '');
+
+    // Same traversal checks as res.sendFile() and serveIndex(): `..` is a 403
+    let absolutePaths: string[];
+    try {
+      absolutePaths = rootPaths.map(rootPath => resolveFilePath(filePath, rootPath));
+    } catch (err) {
+      return next(err);
     }
     
-    // Resolve the absolute file path
-    const absolutePath = path.join(rootPath, filePath);
-    
-    // Check if the path is a dotfile (starts with .)
-    const fileName = path.basename(absolutePath);
-    if (fileName.startsWith('.')) {
+    // Check if any segment of the path is a dotfile, such as `/.git/config`
+    if (hasDotSegment(path.normalize(filePath))) {
       if (staticOptions.dotfiles === 'deny') {
         res.status(403).send('Forbidden');
         return;
@@ -164,215 +207,132 @@ export function serveStatic(root: string, options: {
       // 'allow' continues to serve the file
     }
 
-    // Check if the file exists and is accessible
-    fs.stat(absolutePath, (err, stats) => {
-      if (err) {
-        if (err.code === 'ENOENT') {
-          // File not found, move to next middleware
-          return next();
+    try {
+      for (const absolutePath of absolutePaths) {
+        // Cached files are sent without looking at the disk, or with a single stat
+        // to check they haven't changed. Precompressed variants are looked up first.
+        const cached = staticOptions.cache && !staticOptions.precompressed
+          ? await staticOptions.cache.get(absolutePath)
+          : undefined;
+        if (cached) {
+          return serveFile(absolutePath, cached.stats, req, res, next, staticOptions, cached);
         }
-        // Server error
-        return next(err);
-      }
 
-      // If it's a directory and we have an index option
-      if (stats.isDirectory()) {
-        if (staticOptions.index === false) {
-          return next();
+        const found = await findFile(absolutePath);
+
+        if (found === 'directory') {
+          // Relative links in the index file only work below the trailing slash
+          // Leading slashes are collapsed, since `//host/dir/` would send the client to another host
+          if (staticOptions.redirect && !pathname.endsWith('/')) {
+            return res.redirect(301, `${pathname.replace(/^[\\/]+/, '/')}/${parsedUrl.search || ''}`);
+          }
+          if (staticOptions.index === false) {
+            continue;
+          }
+
+          // Try to serve the index file
+          const indexPath = path.join(absolutePath, staticOptions.index);
+          const indexStats = await statIfExists(indexPath);
+          if (indexStats && indexStats.isFile()) {
+            return serveFile(indexPath, indexStats, req, res, next, staticOptions);
+          }
+        } else if (found) {
+          return serveFile(found.path, found.stats, req, res, next, staticOptions);
         }
-        
-        // Try to serve the index file
-        const indexPath = path.join(absolutePath, staticOptions.index as string);
-        fs.stat(indexPath, (err, indexStats) => {
-          if (err || !indexStats.isFile()) {
-            return next();
+      }
+
+      // Paths routed in the browser get the app's page; assets and API calls still 404
+      if (staticOptions.fallback && req.method === 'GET' && preferredMediaTypes(req.headers.accept).includes('text/html')) {
+        for (const rootPath of rootPaths) {
+          const fallbackPath = path.join(rootPath, staticOptions.fallback);
+          const fallbackStats = await statIfExists(fallbackPath);
+          if (fallbackStats && fallbackStats.isFile()) {
+            return serveFile(fallbackPath, fallbackStats, req, res, next, staticOptions);
           }
-          
-          // If index file exists, serve it
-          serveFile(indexPath, req, res, next, staticOptions);
-        });
-      } else if (stats.isFile()) {
-        // Serve the file directly
-        serveFile(absolutePath, req, res, next, staticOptions);
-      } else {
-        // Not a file or directory
-        return next();
+        }
       }
-    });
+    } catch (err) {
+      // Server error
+      return next(err);
+    }
+
+    // Not found in any root, move to next middleware
+    return next();
   };
 }
 
 /**
  * Helper function to serve a file with appropriate headers
  */
-function serveFile(
+async function serveFile(
   filePath: string, 
+  stats: fs.Stats,
   req: Request, 
   res: Response, 
   next: NextFunction, 
-  options: { etag?: boolean; maxAge?: number }
-): void {
-  // Get file extension and set content type
-  const ext = path.extname(filePath).toLowerCase();
-  const contentType = MIME_TYPES[ext] || 'application/octet-stream';
-  
-  // Set appropriate headers
-  res.setHeader('Content-Type', contentType);
-  
-  // Set cache control headers
-  if (options.maxAge) {
-    res.setHeader('Cache-Control', `public, max-age=${options.maxAge}`);
-  }
-  
-  // Only stream file for GET requests (HEAD requests only need headers)
-  if (req.method === 'HEAD') {
-    fs.stat(filePath, (err, stats) => {
-      if (err) return next(err);
-      res.setHeader('Content-Length', stats.size);
-      res.end();
-    });
-    return;
-  }
-  
-  // Create read stream
-  const fileStream = fs.createReadStream(filePath);
-  
-  // Handle errors in the stream
-  fileStream.on('error', (err) => {
-    next(err);
-  });
-  
-  // Pipe the file to the response
-  fileStream.pipe(res);
-}
-/**
- * CORS middleware
- * @param options CORS options
- */
-export function cors(options: {
-  origin?: string | string[] | boolean;
-  methods?: string | string[];
-  allowedHeaders?: string | string[];
-  exposedHeaders?: string | string[];
-  credentials?: boolean;
-  maxAge?: number;
-} = {}): Middleware {
-  const defaultOptions = {
-    origin: '*',
-    methods: 'GET,HEAD,PUT,PATCH,POST,DELETE',
-    allowedHeaders: 'Content-Type,Authorization',
-    exposedHeaders: '',
-    credentials: false,
-    maxAge: 86400 // 24 hours
-  };
-
-  const corsOptions = { ...defaultOptions, ...options };
-
-  return (req: Request, res: Response, next: NextFunction) => {
-    // Origin
-    const origin = Array.isArray(corsOptions.origin) 
-      ? corsOptions.origin.join(',') 
-      : corsOptions.origin;
-    
-    res.setHeader('Access-Control-Allow-Origin', origin.toString());
-
-    // Methods
-    const methods = Array.isArray(corsOptions.methods) 
-      ? corsOptions.methods.join(',') 
-      : corsOptions.methods;
-    
-    res.setHeader('Access-Control-Allow-Methods', methods);
-
-    // Headers
-    const allowedHeaders = Array.isArray(corsOptions.allowedHeaders) 
-      ? corsOptions.allowedHeaders.join(',') 
-      : corsOptions.allowedHeaders;
-    
-    res.setHeader('Access-Control-Allow-Headers', allowedHeaders);
-
-    // Exposed Headers
-    if (corsOptions.exposedHeaders) {
-      const exposedHeaders = Array.isArray(corsOptions.exposedHeaders) 
-        ? corsOptions.exposedHeaders.join(',') 
-        : corsOptions.exposedHeaders;
-      
-      res.setHeader('Access-Control-Expose-Headers', exposedHeaders);
-    }
-
-    // Credentials
-    if (corsOptions.credentials) {
-      res.setHeader('Access-Control-Allow-Credentials', 'true');
-    }
-
-    // Max Age
-    if (corsOptions.maxAge) {
-      res.setHeader('Access-Control-Max-Age', corsOptions.maxAge.toString());
-    }
+  options: Omit<FileResponseOptions, 'setHeaders'> & Pick<ServeStaticOptions, 'precompressed' | 'setHeaders' | 'cache'>,
+  cached?: CachedFile
+): Promise<void> {
+  const requested = { path: filePath, stats };
 
-    // Handle preflight requests
-    if (req.method === 'OPTIONS') {
-      res.statusCode = 204;
-      res.end();
-      return;
+  // Send a precompressed variant if there is one the client accepts
+  if (options.precompressed) {
+    const encodings = Array.isArray(options.precompressed) ? options.precompressed : undefined;
+    const variant = await findPrecompressed(req, res, filePath, encodings);
+    if (variant) {
+      // The type is that of the original file, not of the .br/.gz one
+      res.setHeader('Content-Type', lookupMimeType(filePath) || 'application/octet-stream');
+      res.setHeader('Content-Encoding', variant.encoding);
+      filePath = variant.path;
+      stats = variant.stats;
     }
+  }
 
-    next();
-  };
-}
-
-/**
- * Logger middleware
- * @param options Logger options
- */
-export function logger(options: {
-  format?: string;
-  skip?: (req: Request, res: Response) => boolean;
-} = {}): Middleware {
-  const defaultOptions = {
-    format: ':method :url :status :response-time ms',
-    skip: () => false
-  };
-
-  const loggerOptions = { ...defaultOptions, ...options };
+  const setHeaders = options.setHeaders;
 
-  return (req: Request, res: Response, next: NextFunction) => {
-    // Skip logging if the skip function returns true
-    if (loggerOptions.skip && loggerOptions.skip(req, res)) {
-      return next();
-    }
+  // Files that can't be cached or read into memory are streamed from disk
+  const { cache } = options;
+  const loaded = cache
+    ? cached || await cache.get(filePath, stats) || await cache.load(filePath, stats).catch(() => undefined)
+    : undefined;
 
-    // Capture start time
-    const start = Date.now();
-    const method = req.method || '';
-    const urlPath = req.url || '';
-    
-    // Listen for the 'finish' event which fires when the response is sent
-    res.on('finish', () => {
-      // Calculate response time
-      const responseTime = Date.now() - start;
-      
-      // Format log message
-      let logMessage = loggerOptions.format
-        .replace(':method', method)
-        .replace(':url', urlPath)
-        .replace(':status', res.statusCode.toString())
-        .replace(':response-time', responseTime.toString());
-      
-      // Log the message
-      console.log(logMessage);
-    });
-    
-    next();
-  };
+  // Validators, conditional requests and ranges; errors while reading the file are passed on
+  return sendFileResponse(req, res, filePath, stats, {
+    maxAge: options.maxAge,
+    immutable: options.immutable,
+    etag: options.etag,
+    lastModified: options.lastModified,
+    acceptRanges: options.acceptRanges,
+    // Report the requested file rather than its .br/.gz variant
+    setHeaders: setHeaders && (() => setHeaders(res, requested.path, requested.stats)),
+    loaded
+  }).catch(next);
 }
 
 /**
  * Error handler middleware
+ * @param options Error handler options
+ * @param options.problemDetails Reply with RFC 7807 `application/problem+json` bodies
+ * instead of `{ error: { message, status } }`
  */
-export function errorHandler(): ErrorHandlerMiddleware {
+export function errorHandler(options: {
+  problemDetails?: boolean | ProblemDetailsOptions;
+} = {}): ErrorHandlerMiddleware {
   return (err: any, req: Request, res: Response, next: NextFunction) => {
-    const statusCode = err.statusCode || 500;
-    const message = err.message || 'Internal Server Error';
+    const statusCode = getErrorStatus(err);
+    
+    setErrorHeaders(res, err);
+    
+    if (options.problemDetails) {
+      sendProblem(res, toProblemDetails(err, {
+        ...(typeof options.problemDetails === 'object' ? options.problemDetails : {}),
+        instance: req.url,
+        production: Application.isProduction()
+      }));
+      return;
+    }
+    
+    const message = getErrorMessage(err, statusCode);
     
     res.status(statusCode).json({
       error: {
@@ -382,4 +342,3 @@ export function errorHandler(): ErrorHandlerMiddleware {
     });
   };
 }
-
@@ -0,0 +1,73 @@
+import * as path from 'path';
+
+/**
+ * Mapping of file extensions to MIME types
+ */
+export const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html',
+  '.htm': 'text/html',
+  '.js': 'text/javascript',
+  '.mjs': 'text/javascript',
+  '.css': 'text/css',
+  '.json': 'application/json',
+  '.xml': 'application/xml',
+  '.csv': 'text/csv',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+  '.webp': 'image/webp',
+  '.ico': 'image/x-icon',
+  '.txt': 'text/plain',
+  '.pdf': 'application/pdf',
+  '.wasm': 'application/wasm',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.ttf': 'font/ttf',
+  '.eot': 'font/eot',
+  '.otf': 'font/otf',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.zip': 'application/zip',
+  '.gz': 'application/gzip',
+  '.tar': 'application/x-tar'
+};
+
+/**
+ * Shorthand names that aren't file extensions
+ */
+const TYPE_ALIASES: Record<string, string> = {
+  text: 'text/plain',
+  urlencoded: 'application/x-www-form-urlencoded',
+  multipart: 'multipart/*'
+};
+
+/**
+ * Get the MIME type for a file path or extension
+ * @param filePath A file path, or an extension such as `.json`
+ * @returns The MIME type, or undefined if unknown
+ */
+export function lookupMimeType(filePath: string): string | undefined {
+  const ext = filePath.startsWith('.') && !filePath.includes('/')
+    ? filePath.toLowerCase()
+    : path.extname(filePath).toLowerCase();
+  return MIME_TYPES[ext];
+}
+
+/**
+ * Resolve a type name to a full MIME type.
+ * Full types (`application/json`) are returned as is, shorthands
+ * (`json`, `.html`, `urlencoded`) are looked up.
+ * @param type The type or shorthand
+ * @returns The MIME type, or undefined if the shorthand is unknown
+ */
+export function normalizeType(type: string): string | undefined {
+  if (type.includes('/')) {
+    return type;
+  }
+  const name = type.replace(/^\./, '').toLowerCase();
+  return TYPE_ALIASES[name] || MIME_TYPES['.' + name];
+}
@@ -0,0 +1,511 @@
+import { randomBytes } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PassThrough, Readable } from 'stream';
+import type { Middleware, Request, Response, NextFunction } from './Application';
+import { BadRequestError, PayloadTooLargeError } from './errors';
+import { decodeBody, inflateError } from './inflate';
+import { parseMediaType } from './negotiation';
+
+/**
+ * A file received in a multipart/form-data request, listed in `req.files`
+ */
+export interface UploadedFile {
+  /** Name of the form field */
+  fieldName: string;
+  /** File name sent by the client; don't use it as a path without sanitizing it */
+  originalName: string;
+  /** Content-Type sent by the client */
+  mimeType: string;
+  /** Size in bytes */
+  size: number;
+  /** Where the storage engine put the file, if it is on disk */
+  path?: string;
+  /** Anything else the storage engine returned */
+  [key: string]: any;
+}
+
+/**
+ * Information about a file part, passed to the storage engine before its content
+ */
+export interface FileInfo {
+  fieldName: string;
+  originalName: string;
+  mimeType: string;
+}
+
+/**
+ * Decides where uploaded files go. `handleFile` consumes the stream and
+ * resolves once the file is stored; the stream is destroyed with an error if
+ * the upload is aborted or too large.
+ */
+export interface StorageEngine {
+  handleFile(file: FileInfo, stream: Readable): Promise<{ path?: string; [key: string]: any }>;
+  /** Remove a stored file, used to clean up when the request fails */
+  removeFile?(file: UploadedFile): Promise<void>;
+}
+
+/**
+ * Limits enforced while parsing; exceeding one fails the request with 413
+ */
+export interface MultipartLimits {
+  /** Maximum number of files (default 10) */
+  files?: number;
+  /** Maximum size of each file in bytes (default 10 MiB) */
+  fileSize?: number;
+  /** Maximum number of text fields (default 100) */
+  fields?: number;
+  /** Maximum size of each text field in bytes (default 1 MiB) */
+  fieldSize?: number;
+}
+
+/**
+ * Options for the multipart parser
+ */
+export interface MultipartOptions {
+  /** Directory for uploaded files when no storage engine is given (default: the OS temp dir) */
+  dest?: string;
+  /** Custom storage engine */
+  storage?: StorageEngine;
+  limits?: MultipartLimits;
+  /** Accept gzip, deflate and br compressed bodies (default true) */
+  inflate?: boolean;
+}
+
+const DEFAULT_LIMITS: Required<MultipartLimits> = {
+  files: 10,
+  fileSize: 10 * 1024 * 1024,
+  fields: 100,
+  fieldSize: 1024 * 1024
+};
+
+/**
+ * Part headers larger than this are rejected
+ */
+const MAX_HEADER_SIZE = 16 * 1024;
+
+const CRLF = Buffer.from('\r\n');
+const HEADER_END = Buffer.from('\r\n\r\n');
+
+/**
+ * Storage engine that writes files to a directory under random names
+ */
+export class DiskStorage implements StorageEngine {
+  private dir: string;
+
+  /**
+   * @param options.dir Target directory, created when needed (default: the OS temp dir)
+   */
+  constructor(options: { dir?: string } = {}) {
+    this.dir = path.resolve(options.dir || os.tmpdir());
+  }
+
+  public handleFile(file: FileInfo, stream: Readable): Promise<{ path: string }> {
+    // Never trust the client's file name for the path on disk
+    const filePath = path.join(this.dir, `upload-${randomBytes(16).toString('hex')}`);
+
+    return new Promise((resolve, reject) => {
+      let output: fs.WriteStream | undefined;
+
+      const fail = (err: Error) => {
+        if (!output) {
+          return reject(err);
+        }
+        output.destroy();
+        fs.promises.unlink(filePath).catch(() => undefined).then(() => reject(err));
+      };
+
+      // Listen right away, the upload can be aborted before the directory exists
+      stream.on('error', fail);
+
+      fs.promises.mkdir(this.dir, { recursive: true }).then(() => {
+        if (stream.destroyed) return;
+        output = fs.createWriteStream(filePath);
+        output.on('error', fail);
+        output.on('finish', () => resolve({ path: filePath }));
+        stream.pipe(output);
+      }, fail);
+    });
+  }
+
+  public async removeFile(file: UploadedFile): Promise<void> {
+    if (file.path) {
+      await fs.promises.unlink(file.path).catch(() => undefined);
+    }
+  }
+}
+
+/**
+ * Callbacks of the multipart parser
+ */
+interface PartHandlers {
+  onPartBegin(headers: Record<string, string>): void;
+  onPartData(data: Buffer): void;
+  onPartEnd(): void;
+}
+
+/**
+ * Incremental multipart/form-data parser. Chunks can be split anywhere,
+ * including in the middle of a boundary; only the bytes that could still
+ * be the start of a boundary are buffered.
+ */
+export class MultipartParser {
+  private buffer: Buffer;
+  private state: 'preamble' | 'boundary' | 'headers' | 'body' | 'done' = 'preamble';
+  private delimiter: Buffer;
+
+  constructor(boundary: string, private handlers: PartHandlers) {
+    this.delimiter = Buffer.from(`\r\n--${boundary}`);
+    // The first boundary isn't preceded by a line break, pretend it is
+    this.buffer = Buffer.from(CRLF);
+  }
+
+  /**
+   * Whether the closing boundary has been seen
+   */
+  get finished(): boolean {
+    return this.state === 'done';
+  }
+
+  /**
+   * Feed a chunk of the body to the parser
+   * @throws BadRequestError if the body is malformed
+   */
+  public write(chunk: Buffer): void {
+    if (this.state === 'done') {
+      return; // The epilogue is ignored
+    }
+
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+    while (this.step()) {
+      // Keep going while progress is made
+    }
+  }
+
+  /**
+   * Signal the end of the body
+   * @throws BadRequestError if the body ended before the closing boundary
+   */
+  public end(): void {
+    if (this.state !== 'done') {
+      throw new BadRequestError('Unexpected end of multipart data');
+    }
+  }
+
+  /**
+   * Process the buffer in the current state
+   * @returns Whether the state machine can continue with the remaining buffer
+   */
+  private step(): boolean {
+    switch (this.state) {
+      case 'preamble': {
+        const index = this.buffer.indexOf(this.delimiter);
+        if (index === -1) {
+          // Only keep what could be the start of the first boundary
+          this.buffer = this.buffer.subarray(Math.max(0, this.buffer.length - this.delimiter.length + 1));
+          return false;
+        }
+        this.buffer = this.buffer.subarray(index + this.delimiter.length);
+        this.state = 'boundary';
+        return true;
+      }
+
+      case 'boundary': {
+        if (this.buffer.length < 2) {
+          return false;
+        }
+        if (this.buffer[0] === 0x2d && this.buffer[1] === 0x2d) {
+          this.state = 'done';
+          this.buffer = Buffer.alloc(0);
+          return false;
+        }
+        const lineEnd = this.buffer.indexOf(CRLF);
+        if (lineEnd === -1) {
+          if (this.buffer.length > 256) {
+            throw new BadRequestError('Malformed multipart boundary');
+          }
+          return false;
+        }
+        // Transport padding (whitespace) may follow the boundary
+        if (!/^[ \t]*$/.test(this.buffer.subarray(0, lineEnd).toString('latin1'))) {
+          throw new BadRequestError('Malformed multipart boundary');
+        }
+        this.buffer = this.buffer.subarray(lineEnd + CRLF.length);
+        this.state = 'headers';
+        return true;
+      }
+
+      case 'headers': {
+        // A part without headers starts directly with the blank line
+        const index = this.buffer[0] === 0x0d && this.buffer[1] === 0x0a ? -2 : this.buffer.indexOf(HEADER_END);
+        if (index === -1) {
+          if (this.buffer.length > MAX_HEADER_SIZE) {
+            throw new PayloadTooLargeError('Multipart headers too large');
+          }
+          return false;
+        }
+        const headerText = index === -2 ? '' : this.buffer.subarray(0, index).toString('utf8');
+        this.buffer = this.buffer.subarray(index === -2 ? CRLF.length : index + HEADER_END.length);
+        this.state = 'body';
+        this.handlers.onPartBegin(parsePartHeaders(headerText));
+        return true;
+      }
+
+      case 'body': {
+        const index = this.buffer.indexOf(this.delimiter);
+        if (index === -1) {
+          // Everything but a possible partial delimiter at the end is content
+          const safe = this.buffer.length - this.delimiter.length + 1;
+          if (safe > 0) {
+            this.handlers.onPartData(this.buffer.subarray(0, safe));
+            this.buffer = this.buffer.subarray(safe);
+          }
+          return false;
+        }
+        if (index > 0) {
+          this.handlers.onPartData(this.buffer.subarray(0, index));
+        }
+        this.buffer = this.buffer.subarray(index + this.delimiter.length);
+        this.state = 'boundary';
+        this.handlers.onPartEnd();
+        return true;
+      }
+
+      default:
+        return false;
+    }
+  }
+}
+
+/**
+ * Parse the header block of a part into lowercase names and values
+ */
+function parsePartHeaders(text: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  text.split('\r\n').forEach((line) => {
+    const colon = line.indexOf(':');
+    if (colon > 0) {
+      headers[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim();
+    }
+  });
+  return headers;
+}
+
+/**
+ * Read the field name and file name from a Content-Disposition header.
+ * `filename*` (RFC 5987) takes precedence over `filename`.
+ */
+export function parseContentDisposition(header: string): { name?: string; filename?: string } {
+  const params: Record<string, string> = {};
+  const pattern = /;\s*([^\s=;]+)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^;]*))/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(header)) !== null) {
+    const value = match[2] !== undefined ? match[2].replace(/\\(["\\])/g, '$1') : match[3].trim();
+    params[match[1].toLowerCase()] = value;
+  }
+
+  let filename = params.filename;
+  const extended = params['filename*'] && /^([\w-]+)'[^']*'(.*)$/.exec(params['filename*']);
+  if (extended) {
+    try {
+      filename = extended[1].toLowerCase() === 'utf-8'
+        ? decodeURIComponent(extended[2])
+        : unescape(extended[2]);
+    } catch {
+      // Keep the plain filename
+    }
+  }
+
+  // Some browsers send the full client path
+  if (filename !== undefined) {
+    filename = filename.split(/[\\/]/).pop() || '';
+  }
+
+  return { name: params.name, filename };
+}
+
+/**
+ * Add a field to the body, turning repeated names into arrays
+ */
+function appendField(body: Record<string, any>, name: string, value: string): void {
+  if (!Object.prototype.hasOwnProperty.call(body, name)) {
+    body[name] = value;
+  } else if (Array.isArray(body[name])) {
+    body[name].push(value);
+  } else {
+    body[name] = [body[name], value];
+  }
+}
+
+/**
+ * multipart/form-data parser. Files are streamed to the storage engine
+ * while the request is read, text fields end up in `req.body` and files
+ * in `req.files`. Files of a failed request are removed again.
+ * @param options Destination, storage engine and limits
+ */
+export function multipart(options: MultipartOptions = {}): Middleware {
+  const storage = options.storage || new DiskStorage({ dir: options.dest });
+  const limits = { ...DEFAULT_LIMITS, ...options.limits };
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (req._body || !req.is('multipart/form-data')) {
+      return next();
+    }
+    req._body = true;
+
+    const type = parseMediaType(req.headers['content-type'] || '');
+    const boundary = type && type.params.boundary;
+    if (!boundary) {
+      return next(new BadRequestError('Missing multipart boundary'));
+    }
+
+    let input: Readable;
+    try {
+      input = decodeBody(req, options.inflate);
+    } catch (err) {
+      req.resume();
+      return next(err);
+    }
+
+    const body: Record<string, any> = {};
+    const files: UploadedFile[] = [];
+    const pending: Promise<void>[] = [];
+    let fieldCount = 0;
+    let failed = false;
+
+    // State of the part being parsed
+    let current: {
+      name: string;
+      file?: { info: FileInfo; stream: PassThrough; size: number };
+      chunks: Buffer[];
+      size: number;
+    } | undefined;
+
+    const fail = (err: any) => {
+      if (failed) return;
+      failed = true;
+
+      // Stop reading, and abort the file being written
+      input.removeAllListeners('data');
+      if (input !== req) {
+        req.unpipe();
+        input.destroy();
+      }
+      req.resume();
+      if (current && current.file) {
+        current.file.stream.destroy(err);
+      }
+
+      // Remove what was already stored before reporting the error
+      Promise.allSettled(pending)
+        .then(() => Promise.all(files.map(file => storage.removeFile ? storage.removeFile(file).catch(() => undefined) : undefined)))
+        .then(() => next(err));
+    };
+
+    const parser = new MultipartParser(boundary, {
+      onPartBegin(headers) {
+        const disposition = parseContentDisposition(headers['content-disposition'] || '');
+        if (disposition.name === undefined) {
+          throw new BadRequestError('Multipart part without a field name');
+        }
+
+        current = { name: disposition.name, chunks: [], size: 0 };
+
+        if (disposition.filename === undefined) {
+          if (++fieldCount > limits.fields) {
+            throw new PayloadTooLargeError('Too many fields');
+          }
+          return;
+        }
+
+        if (pending.length >= limits.files) {
+          throw new PayloadTooLargeError('Too many files');
+        }
+
+        const info: FileInfo = {
+          fieldName: disposition.name,
+          originalName: disposition.filename,
+          mimeType: headers['content-type'] || 'application/octet-stream'
+        };
+        const stream = new PassThrough();
+        // Aborting destroys the stream with an error, which the engine may not listen for
+        stream.on('error', () => undefined);
+        const file = { info, stream, size: 0 };
+        current.file = file;
+
+        const stored = storage.handleFile(info, stream).then((result) => {
+          files.push({ ...result, ...info, size: file.size });
+        });
+        // Storage errors fail the request right away
+        stored.catch(fail);
+        pending.push(stored);
+      },
+
+      onPartData(data) {
+        if (!current) return;
+
+        if (current.file) {
+          current.file.size += data.length;
+          if (current.file.size > limits.fileSize) {
+            throw new PayloadTooLargeError('File too large', { details: { field: current.name, limit: limits.fileSize } });
+          }
+          // Respect backpressure from the storage engine
+          if (!current.file.stream.write(data)) {
+            input.pause();
+            current.file.stream.once('drain', () => input.resume());
+          }
+          return;
+        }
+
+        current.size += data.length;
+        if (current.size > limits.fieldSize) {
+          throw new PayloadTooLargeError('Field value too large', { details: { field: current.name, limit: limits.fieldSize } });
+        }
+        current.chunks.push(data);
+      },
+
+      onPartEnd() {
+        if (!current) return;
+
+        if (current.file) {
+          current.file.stream.end();
+        } else {
+          appendField(body, current.name, Buffer.concat(current.chunks).toString('utf8'));
+        }
+        current = undefined;
+      }
+    });
+
+    input.on('data', (chunk: Buffer) => {
+      try {
+        parser.write(chunk);
+      } catch (err) {
+        fail(err);
+      }
+    });
+
+    input.on('end', () => {
+      if (failed) return;
+      try {
+        parser.end();
+      } catch (err) {
+        return fail(err);
+      }
+
+      Promise.all(pending).then(() => {
+        if (failed) return;
+        req.body = body;
+        req.files = files;
+        next();
+      }, () => undefined);
+    });
+
+    if (input !== req) {
+      input.on('error', err => fail(inflateError(err)));
+    }
+    req.on('error', fail);
+  };
+}
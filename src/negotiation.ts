@@ -0,0 +1,346 @@
+import { ServerResponse } from 'http';
+
+/**
+ * A parsed media type, e.g. `application/vnd.api+json; charset=utf-8`
+ */
+export interface MediaType {
+  type: string;
+  subtype: string;
+  /** Structured syntax suffix, e.g. `json` for `application/vnd.api+json` */
+  suffix?: string;
+  params: Record<string, string>;
+}
+
+/**
+ * A single entry of an Accept-* header
+ */
+interface AcceptEntry {
+  value: string;
+  q: number;
+  /** Position in the header, used to break ties */
+  order: number;
+  params: Record<string, string>;
+}
+
+/**
+ * Priority of a provided value against the header
+ */
+interface Priority {
+  value: string;
+  q: number;
+  /** How specific the matching entry was */
+  specificity: number;
+  order: number;
+  index: number;
+}
+
+/**
+ * Split a header on commas, ignoring commas inside quoted strings
+ */
+function splitHeader(header: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (const char of header) {
+    if (char === '"') {
+      quoted = !quoted;
+    }
+    if (char === separator && !quoted) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts.map(part => part.trim()).filter(Boolean);
+}
+
+/**
+ * Parse `key=value` parameters, unquoting quoted values
+ */
+function parseParams(parts: string[]): Record<string, string> {
+  const params: Record<string, string> = {};
+
+  parts.forEach((part) => {
+    const eq = part.indexOf('=');
+    if (eq === -1) return;
+
+    const key = part.slice(0, eq).trim().toLowerCase();
+    let value = part.slice(eq + 1).trim();
+    if (value.startsWith('"') && value.endsWith('"')) {
+      value = value.slice(1, -1).replace(/\\(.)/g, '$1');
+    }
+    params[key] = value;
+  });
+
+  return params;
+}
+
+/**
+ * Parse an Accept-* header into entries with their quality values
+ */
+function parseAcceptHeader(header: string): AcceptEntry[] {
+  return splitHeader(header, ',').map((part, order) => {
+    const [value, ...rest] = splitHeader(part, ';');
+    const params = parseParams(rest);
+    let q = 1;
+
+    if (params.q !== undefined) {
+      const parsed = parseFloat(params.q);
+      q = isNaN(parsed) ? 0 : Math.min(Math.max(parsed, 0), 1);
+      delete params.q;
+    }
+
+    return { value: value.toLowerCase(), q, order, params };
+  });
+}
+
+/**
+ * Parse a media type such as a Content-Type header value
+ * @param value The media type string
+ * @returns The parsed media type, or null if it is malformed
+ */
+export function parseMediaType(value: string): MediaType | null {
+  const [essence, ...rest] = splitHeader(value, ';');
+  if (!essence) return null;
+
+  const match = /^([\w.+*-]+)\/([\w.+*-]+)$/.exec(essence.toLowerCase());
+  if (!match) return null;
+
+  const subtype = match[2];
+  const plus = subtype.lastIndexOf('+');
+
+  return {
+    type: match[1],
+    subtype,
+    suffix: plus === -1 ? undefined : subtype.slice(plus + 1),
+    params: parseParams(rest)
+  };
+}
+
+/**
+ * Check whether a media type matches an expected type.
+ * The expected type may use wildcards (`*\/*`, `text/*`, `*\/json`)
+ * or a suffix (`+json`, `application/*+json`).
+ * @param actual The actual media type, e.g. the request Content-Type
+ * @param expected The expected type
+ */
+export function matchesMediaType(actual: string, expected: string): boolean {
+  const parsed = parseMediaType(actual);
+  if (!parsed) return false;
+
+  const pattern = expected.startsWith('+') ? `*/*${expected}` : expected;
+  const slash = pattern.indexOf('/');
+  if (slash === -1) return false;
+
+  const type = pattern.slice(0, slash).toLowerCase();
+  let subtype = pattern.slice(slash + 1).toLowerCase();
+
+  if (type !== '*' && type !== parsed.type) {
+    return false;
+  }
+
+  // `*+json` style subtypes match on the suffix
+  if (subtype.startsWith('*+')) {
+    subtype = subtype.slice(2);
+    return parsed.suffix === subtype || parsed.subtype === subtype;
+  }
+
+  return subtype === '*' || subtype === parsed.subtype;
+}
+
+/**
+ * Sort provided values by the priority the header gives them.
+ * `match` returns how specifically an entry matches a value, or -1 if it doesn't.
+ * Ties are broken by header order, or by the order of `provided` with `providedOrder`.
+ */
+function negotiate(
+  entries: AcceptEntry[],
+  provided: string[],
+  match: (entry: AcceptEntry, value: string) => number,
+  providedOrder: boolean = false
+): string[] {
+  const priorities: Priority[] = [];
+
+  provided.forEach((value, index) => {
+    let best: Priority | null = null;
+
+    entries.forEach((entry) => {
+      const specificity = match(entry, value);
+      if (specificity < 0) return;
+
+      // The most specific entry decides, then quality, then header order
+      if (!best
+        || specificity > best.specificity
+        || (specificity === best.specificity && entry.q > best.q)
+        || (specificity === best.specificity && entry.q === best.q && entry.order < best.order)) {
+        best = { value, q: entry.q, specificity, order: entry.order, index };
+      }
+    });
+
+    if (best) {
+      priorities.push(best);
+    }
+  });
+
+  return priorities
+    .filter(priority => priority.q > 0)
+    .sort((a, b) => (b.q - a.q) || (b.specificity - a.specificity)
+      || (providedOrder ? (a.index - b.index) : (a.order - b.order) || (a.index - b.index)))
+    .map(priority => priority.value);
+}
+
+/**
+ * List the entries of a header, most preferred first
+ */
+function listAccepted(entries: AcceptEntry[]): string[] {
+  return entries
+    .filter(entry => entry.q > 0)
+    .sort((a, b) => (b.q - a.q) || (a.order - b.order))
+    .map(entry => entry.value);
+}
+
+/**
+ * Get the provided media types acceptable to the client, most preferred first
+ * @param accept The Accept header (a missing header accepts everything)
+ * @param provided The media types the server can produce; omit to list the accepted types
+ */
+export function preferredMediaTypes(accept: string | undefined, provided?: string[]): string[] {
+  const entries = parseAcceptHeader(accept === undefined ? '*/*' : accept)
+    .map(entry => {
+      const type = parseMediaType(entry.value);
+      return type ? { ...entry, params: { ...type.params, ...entry.params }, value: `${type.type}/${type.subtype}` } : entry;
+    });
+
+  if (!provided) {
+    return listAccepted(entries);
+  }
+
+  return negotiate(entries, provided, (entry, value) => {
+    const type = parseMediaType(value);
+    const [entryType, entrySubtype] = entry.value.split('/');
+    if (!type || !entrySubtype) return -1;
+
+    let specificity = 0;
+
+    if (entryType === type.type) {
+      specificity |= 4;
+    } else if (entryType !== '*') {
+      return -1;
+    }
+
+    if (entrySubtype === type.subtype) {
+      specificity |= 2;
+    } else if (entrySubtype !== '*') {
+      return -1;
+    }
+
+    // Parameters in the header must match those of the provided type
+    const keys = Object.keys(entry.params);
+    for (const key of keys) {
+      if ((type.params[key] || '').toLowerCase() !== entry.params[key].toLowerCase()) {
+        return -1;
+      }
+    }
+    if (keys.length > 0) {
+      specificity |= 1;
+    }
+
+    return specificity;
+  });
+}
+
+/**
+ * Get the provided content codings acceptable to the client, most preferred first.
+ * `identity` is acceptable unless the header explicitly refuses it.
+ * @param accept The Accept-Encoding header (a missing header only accepts `identity`)
+ * @param provided The encodings the server supports; omit to list the accepted encodings
+ * @param serverPreference Order equally acceptable encodings as in `provided` rather than as in the header
+ */
+export function preferredEncodings(accept: string | undefined, provided?: string[], serverPreference: boolean = false): string[] {
+  const entries = parseAcceptHeader(accept || '');
+
+  // identity is implicitly acceptable, at the lowest quality that was listed
+  if (!entries.some(entry => entry.value === 'identity' || entry.value === '*')) {
+    const minQ = entries.reduce((min, entry) => Math.min(min, entry.q), 1);
+    entries.push({ value: 'identity', q: minQ, order: entries.length, params: {} });
+  }
+
+  if (!provided) {
+    return listAccepted(entries);
+  }
+
+  return negotiate(entries, provided, (entry, value) => {
+    if (entry.value === value.toLowerCase()) return 1;
+    return entry.value === '*' ? 0 : -1;
+  }, serverPreference);
+}
+
+/**
+ * Get the provided languages acceptable to the client, most preferred first.
+ * Language ranges match on their primary tag, so `en` and `en-US` match each other.
+ * @param accept The Accept-Language header (a missing header accepts everything)
+ * @param provided The languages the server supports; omit to list the accepted languages
+ */
+export function preferredLanguages(accept: string | undefined, provided?: string[]): string[] {
+  const entries = parseAcceptHeader(accept === undefined ? '*' : accept);
+
+  if (!provided) {
+    return listAccepted(entries);
+  }
+
+  return negotiate(entries, provided, (entry, value) => {
+    const language = value.toLowerCase();
+    const prefix = language.split('-')[0];
+    const entryPrefix = entry.value.split('-')[0];
+
+    if (entry.value === language) return 4;
+    if (entryPrefix === language) return 2;
+    if (entry.value === prefix) return 1;
+    return entry.value === '*' ? 0 : -1;
+  });
+}
+
+/**
+ * Get the provided charsets acceptable to the client, most preferred first
+ * @param accept The Accept-Charset header (a missing header accepts everything)
+ * @param provided The charsets the server supports; omit to list the accepted charsets
+ */
+export function preferredCharsets(accept: string | undefined, provided?: string[]): string[] {
+  const entries = parseAcceptHeader(accept === undefined ? '*' : accept);
+
+  if (!provided) {
+    return listAccepted(entries);
+  }
+
+  return negotiate(entries, provided, (entry, value) => {
+    if (entry.value === value.toLowerCase()) return 1;
+    return entry.value === '*' ? 0 : -1;
+  });
+}
+
+/**
+ * Add a field to the Vary header of a response, if it isn't listed yet
+ * @param res The response
+ * @param field The request header the response varies on
+ */
+export function appendVary(res: ServerResponse, field: string): void {
+  const current = res.getHeader('Vary');
+  const value = Array.isArray(current) ? current.join(', ') : current !== undefined ? String(current) : '';
+  const fields = value.split(',').map(item => item.trim()).filter(Boolean);
+
+  if (fields.includes('*')) {
+    return;
+  }
+
+  const missing = field.split(',')
+    .map(item => item.trim())
+    .filter(item => item && !fields.some(existing => existing.toLowerCase() === item.toLowerCase()));
+
+  if (missing.length > 0) {
+    res.setHeader('Vary', [...fields, ...missing].join(', '));
+  }
+}
@@ -0,0 +1,180 @@
+import type { Request } from './Application';
+import { isFresh } from './etag';
+import { normalizeType } from './mime';
+import {
+  matchesMediaType,
+  parseMediaType,
+  preferredCharsets,
+  preferredEncodings,
+  preferredLanguages,
+  preferredMediaTypes
+} from './negotiation';
+
+/**
+ * Flatten `accepts('a', 'b')` and `accepts(['a', 'b'])` style arguments
+ */
+function flatten(args: Array<string | string[]>): string[] {
+  return args.reduce<string[]>((all, arg) => all.concat(arg), []);
+}
+
+/**
+ * Read a request header as a single string, joining repeated headers
+ */
+function header(req: Request, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value.join(', ') : value;
+}
+
+/**
+ * Pick the best of the given values, keeping the caller's spelling of it
+ */
+function pickBest(
+  header: string | undefined,
+  values: string[],
+  preferred: (header: string | undefined, provided?: string[]) => string[]
+): string | false {
+  const best = preferred(header, values)[0];
+  return best === undefined ? false : best;
+}
+
+/**
+ * Negotiation and content type helpers mixed into every request
+ */
+export const requestMethods = {
+  /**
+   * Check which of the given types the client accepts, based on the Accept header.
+   * Types may be full MIME types (`application/json`) or shorthands (`json`, `html`).
+   * @returns The best matching type as it was passed in, `false` if none is acceptable,
+   * or the accepted types in order of preference when called without arguments
+   */
+  accepts(this: Request, ...types: Array<string | string[]>): any {
+    const accept = this.headers.accept;
+    const list = flatten(types);
+
+    if (list.length === 0) {
+      return preferredMediaTypes(accept);
+    }
+
+    // Negotiate on the full MIME types, but answer with the caller's names
+    const mimeTypes = list.map(type => normalizeType(type) || type);
+    const best = preferredMediaTypes(accept, mimeTypes)[0];
+    return best === undefined ? false : list[mimeTypes.indexOf(best)];
+  },
+
+  /**
+   * Check which of the given content codings the client accepts, based on Accept-Encoding
+   * @returns The best encoding, `false` if none is acceptable, or the accepted
+   * encodings in order of preference when called without arguments
+   */
+  acceptsEncodings(this: Request, ...encodings: Array<string | string[]>): any {
+    const list = flatten(encodings);
+    const value = header(this, 'accept-encoding');
+    return list.length === 0 ? preferredEncodings(value) : pickBest(value, list, preferredEncodings);
+  },
+
+  /**
+   * Check which of the given languages the client accepts, based on Accept-Language
+   * @returns The best language, `false` if none is acceptable, or the accepted
+   * languages in order of preference when called without arguments
+   */
+  acceptsLanguages(this: Request, ...languages: Array<string | string[]>): any {
+    const list = flatten(languages);
+    const value = header(this, 'accept-language');
+    return list.length === 0 ? preferredLanguages(value) : pickBest(value, list, preferredLanguages);
+  },
+
+  /**
+   * Check which of the given charsets the client accepts, based on Accept-Charset
+   * @returns The best charset, `false` if none is acceptable, or the accepted
+   * charsets in order of preference when called without arguments
+   */
+  acceptsCharsets(this: Request, ...charsets: Array<string | string[]>): any {
+    const list = flatten(charsets);
+    const value = header(this, 'accept-charset');
+    return list.length === 0 ? preferredCharsets(value) : pickBest(value, list, preferredCharsets);
+  },
+
+  /**
+   * Check whether the request body has one of the given content types.
+   * Types may be full MIME types, shorthands (`json`, `urlencoded`), wildcards
+   * (`text/*`, `*\/json`) or suffixes (`+json`).
+   * @returns The matching type as it was passed in (or the request's own type for
+   * wildcard and suffix types), `false` if it doesn't match, or `null` if the request has no body
+   */
+  is(this: Request, ...types: Array<string | string[]>): string | false | null {
+    if (!hasBody(this)) {
+      return null;
+    }
+
+    const contentType = this.headers['content-type'];
+    const parsed = contentType ? parseMediaType(contentType) : null;
+    if (!parsed) {
+      return false;
+    }
+
+    const actual = `${parsed.type}/${parsed.subtype}`;
+    const list = flatten(types);
+
+    if (list.length === 0) {
+      return actual;
+    }
+
+    for (const type of list) {
+      const expected = type.startsWith('+') ? type : normalizeType(type);
+      if (expected && matchesMediaType(actual, expected)) {
+        return expected.includes('*') || expected.startsWith('+') ? actual : type;
+      }
+    }
+
+    return false;
+  }
+};
+
+/**
+ * Computed properties defined on every request
+ */
+export const requestProperties: PropertyDescriptorMap = {
+  /**
+   * Whether the client's cached copy of the response is still current.
+   * Only GET and HEAD requests answered with a 2xx or 304 status can be fresh.
+   */
+  fresh: {
+    configurable: true,
+    get(this: Request): boolean {
+      const method = this.method;
+      const res = this.res;
+
+      if ((method !== 'GET' && method !== 'HEAD') || !res) {
+        return false;
+      }
+
+      const status = res.statusCode;
+      if ((status < 200 || status >= 300) && status !== 304) {
+        return false;
+      }
+
+      return isFresh(this.headers, {
+        etag: res.getHeader('ETag'),
+        'last-modified': res.getHeader('Last-Modified')
+      });
+    }
+  },
+
+  /**
+   * Whether the client's cached copy is out of date, the inverse of `fresh`
+   */
+  stale: {
+    configurable: true,
+    get(this: Request): boolean {
+      return !this.fresh;
+    }
+  }
+};
+
+/**
+ * Whether a request has a body, going by its Transfer-Encoding and Content-Length headers
+ */
+export function hasBody(req: Request): boolean {
+  return req.headers['transfer-encoding'] !== undefined
+    || !isNaN(parseInt(req.headers['content-length'] || '', 10));
+}
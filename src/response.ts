@@ -0,0 +1,323 @@
+import { STATUS_CODES } from 'http';
+import { Application } from './Application';
+import type { Request, Response } from './Application';
+import { appendSetCookie, serializeCookie, signCookie, CookieOptions } from './cookies';
+import { escapeHtml } from './errorPage';
+import { NotAcceptableError } from './errors';
+import { compileETag } from './etag';
+import { lookupMimeType, normalizeType } from './mime';
+import { appendVary, parseMediaType } from './negotiation';
+import { contentDisposition, sendFile, SendFileOptions } from './send';
+
+/**
+ * Bodies accepted by `res.send()`. Anything that isn't a string or binary data is sent as JSON.
+ */
+export type ResponseBody = string | Buffer | ArrayBufferView | ArrayBuffer | object | number | boolean | null | undefined;
+
+/**
+ * Handlers passed to `res.format()`, keyed by MIME type or shorthand.
+ * The `default` handler runs when none of the types is acceptable.
+ */
+export type FormatHandlers = Record<string, () => any>;
+
+/**
+ * Statuses that never have a response body
+ */
+const BODYLESS_STATUSES = [204, 304];
+
+/**
+ * Characters that must be percent-encoded in a URL, leaving existing
+ * percent-encoded sequences alone
+ */
+const ENCODE_CHARS = /(?:[^\x21\x25\x26-\x3B\x3D\x3F-\x5B\x5D\x5F\x61-\x7A\x7E]|%(?:[^0-9A-Fa-f]|[0-9A-Fa-f][^0-9A-Fa-f]|$))+/g;
+
+/**
+ * Lone surrogates, which encodeURI can't encode
+ */
+const UNMATCHED_SURROGATES = /(^|[^\uD800-\uDBFF])[\uDC00-\uDFFF]|[\uD800-\uDBFF]([^\uDC00-\uDFFF]|$)/g;
+
+/**
+ * Percent-encode a URL for use in a header, without encoding it twice
+ */
+function encodeUrl(url: string): string {
+  return url
+    .replace(UNMATCHED_SURROGATES, '$1\uFFFD$2')
+    .replace(ENCODE_CHARS, encodeURI);
+}
+
+/**
+ * Add a charset parameter to a Content-Type, unless it already has one
+ */
+function withCharset(contentType: string, charset: string): string {
+  const parsed = parseMediaType(contentType);
+  if (!parsed || parsed.params.charset) {
+    return contentType;
+  }
+  return `${contentType}; charset=${charset}`;
+}
+
+/**
+ * Convert binary bodies to a Buffer without copying the underlying memory
+ */
+function toBuffer(body: ArrayBufferView | ArrayBuffer): Buffer {
+  if (Buffer.isBuffer(body)) {
+    return body;
+  }
+  if (ArrayBuffer.isView(body)) {
+    return Buffer.from(body.buffer, body.byteOffset, body.byteLength);
+  }
+  return Buffer.from(body);
+}
+
+/**
+ * Sending and negotiation helpers mixed into every response
+ */
+export const responseMethods = {
+  /**
+   * Set the HTTP status code for the response
+   * @param code The HTTP status code
+   * @returns The response object for chaining
+   */
+  status(this: Response, code: number): Response {
+    this.statusCode = code;
+    return this;
+  },
+
+  /**
+   * Send a JSON response. Content-Type defaults to `application/json; charset=utf-8`.
+   * @param data Data to be converted to JSON and sent
+   * @returns The response object for chaining
+   */
+  json(this: Response, data: any): Response {
+    Application.logger.debug('response', `json() method called with data:`, typeof data);
+    if (!this.hasHeader('Content-Type')) {
+      this.setHeader('Content-Type', 'application/json');
+    }
+    // JSON.stringify(undefined) has no output, send an empty body instead
+    const body = JSON.stringify(data);
+    return this.send(body === undefined ? '' : body);
+  },
+
+  /**
+   * Send a response body.
+   *
+   * Strings default to `text/html`, binary data (Buffers, typed arrays) to
+   * `application/octet-stream`, and any other value is sent with `res.json()`.
+   * A Content-Type set before calling `send` is kept. `Content-Length` is set
+   * from the body, and no body is written for HEAD requests or 204/304 responses.
+   * Bodies get an ETag (see the `etag` app setting), and requests whose cached
+   * copy is still fresh are answered with 304 Not Modified.
+   * @param body The body to send
+   * @returns The response object for chaining
+   */
+  send(this: Response, body?: ResponseBody): Response {
+    let chunk: string | Buffer | undefined;
+
+    if (typeof body === 'string') {
+      if (!this.hasHeader('Content-Type')) {
+        this.setHeader('Content-Type', 'text/html');
+      }
+      chunk = body;
+    } else if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+      if (!this.hasHeader('Content-Type')) {
+        this.setHeader('Content-Type', 'application/octet-stream');
+      }
+      chunk = toBuffer(body);
+    } else if (body !== undefined && body !== null) {
+      return this.json(body);
+    }
+
+    Application.logger.debug('response', `send() method called with ${chunk === undefined ? 'no' : typeof chunk === 'string' ? 'a string' : 'a binary'} body`);
+
+    // Text is always sent as UTF-8, say so unless the caller chose a charset
+    if (typeof chunk === 'string') {
+      this.setHeader('Content-Type', withCharset(String(this.getHeader('Content-Type')), 'utf-8'));
+    }
+
+    // Validators let clients revalidate their cached copy instead of downloading it again
+    const generateETag = this.app ? compileETag(this.app.getSetting('etag')) : undefined;
+    if (chunk !== undefined && generateETag && !this.hasHeader('ETag')) {
+      const etag = generateETag(chunk);
+      if (etag) {
+        this.setHeader('ETag', etag);
+      }
+    }
+
+    const req = this.req as Request;
+    if (req && req.fresh) {
+      this.statusCode = 304;
+    }
+
+    if (BODYLESS_STATUSES.includes(this.statusCode)) {
+      this.removeHeader('Content-Type');
+      this.removeHeader('Content-Length');
+      this.removeHeader('Transfer-Encoding');
+      this.end();
+      return this;
+    }
+
+    this.setHeader('Content-Length', chunk === undefined ? 0 : Buffer.byteLength(chunk));
+
+    // HEAD responses carry the headers of the GET response, without its body
+    if (req && req.method === 'HEAD') {
+      this.end();
+    } else {
+      this.end(chunk);
+    }
+
+    return this;
+  },
+
+  /**
+   * Set the Location header. `'back'` refers to the Referer, or `/` without one.
+   * The URL is percent-encoded where needed, existing escapes are kept.
+   * @param url The URL to point to
+   * @returns The response object for chaining
+   */
+  location(this: Response, url: string): Response {
+    let target = url;
+    if (url === 'back') {
+      const referrer = this.req.headers.referer || this.req.headers.referrer;
+      target = (Array.isArray(referrer) ? referrer[0] : referrer) || '/';
+    }
+    this.setHeader('Location', encodeUrl(target));
+    return this;
+  },
+
+  /**
+   * Redirect to a URL, with a short HTML or plain text body depending on the Accept header
+   * @param statusOrUrl The status code (defaults to 302), or the URL
+   * @param url The URL, when a status code is given
+   */
+  redirect(this: Response, statusOrUrl: number | string, url?: string): void {
+    const status = typeof statusOrUrl === 'number' ? statusOrUrl : 302;
+    const target = typeof statusOrUrl === 'number' ? url || '/' : statusOrUrl;
+
+    this.location(target);
+    const location = String(this.getHeader('Location'));
+    const statusText = STATUS_CODES[status] || 'Redirecting';
+
+    this.statusCode = status;
+    this.format({
+      text: () => this.send(`${statusText}. Redirecting to ${location}`),
+      html: () => {
+        const href = escapeHtml(location);
+        this.send(`<p>${escapeHtml(statusText)}. Redirecting to <a href="${href}">${href}</a></p>`);
+      },
+      default: () => this.send('')
+    });
+  },
+
+  /**
+   * Set a cookie. Each call appends a Set-Cookie header.
+   * Signed cookies need the cookie parser middleware to be set up with a secret.
+   * @param name The cookie name
+   * @param value The value, percent-encoded in the header
+   * @param options Cookie attributes, `maxAge` in milliseconds
+   * @returns The response object for chaining
+   */
+  cookie(this: Response, name: string, value: string, options: CookieOptions = {}): Response {
+    const req = this.req as Request;
+    let text = String(value);
+
+    if (options.signed) {
+      if (!req.secret) {
+        throw new Error('cookieParser(secret) is required for signed cookies');
+      }
+      text = signCookie(text, req.secret);
+    }
+
+    const cookieOptions: CookieOptions = { path: '/', ...options };
+    if (options.maxAge !== undefined) {
+      cookieOptions.expires = new Date(Date.now() + options.maxAge);
+    }
+
+    appendSetCookie(this, serializeCookie(name, text, cookieOptions));
+    return this;
+  },
+
+  /**
+   * Clear a cookie by expiring it. Pass the same `path` and `domain` it was set with.
+   * @param name The cookie name
+   * @param options Cookie attributes
+   * @returns The response object for chaining
+   */
+  clearCookie(this: Response, name: string, options: CookieOptions = {}): Response {
+    const { maxAge, signed, ...attributes } = options;
+    appendSetCookie(this, serializeCookie(name, '', { path: '/', ...attributes, expires: new Date(0) }));
+    return this;
+  },
+
+  /**
+   * Set Content-Disposition to `attachment`, so browsers download the response.
+   * With a filename, Content-Type is also set from its extension.
+   * @param filename The file name suggested to the user
+   * @returns The response object for chaining
+   */
+  attachment(this: Response, filename?: string): Response {
+    if (filename) {
+      const type = lookupMimeType(filename);
+      if (type) {
+        this.setHeader('Content-Type', type);
+      }
+    }
+    this.setHeader('Content-Disposition', contentDisposition(filename));
+    return this;
+  },
+
+  /**
+   * Send a file, streamed from disk with its Content-Type and Content-Length.
+   * The returned promise rejects with a NotFoundError for missing files and a
+   * ForbiddenError for paths outside `root`; return or await it so such errors
+   * reach the error handlers.
+   * @param filePath Absolute path, or a path relative to `options.root`
+   * @param options Root directory, extra headers and max-age
+   */
+  sendFile(this: Response, filePath: string, options?: SendFileOptions): Promise<void> {
+    return sendFile(this.req as Request, this, filePath, options);
+  },
+
+  /**
+   * Send a file as a download, with a Content-Disposition `attachment` header
+   * @param filePath Absolute path, or a path relative to `options.root`
+   * @param filename The file name suggested to the user (defaults to the file's name)
+   * @param options The same options as sendFile
+   */
+  download(this: Response, filePath: string, filename?: string, options?: SendFileOptions): Promise<void> {
+    this.setHeader('Content-Disposition', contentDisposition(filename || filePath));
+    return sendFile(this.req as Request, this, filePath, options);
+  },
+
+  /**
+   * Respond in the format the client prefers, based on the request's Accept header.
+   * Sets `Content-Type` to the chosen type and `Vary: Accept`, then runs its handler.
+   * @param handlers Handlers keyed by MIME type or shorthand, plus an optional `default`
+   * @returns Whatever the chosen handler returns, so async handlers can be awaited
+   * @throws NotAcceptableError if no type is acceptable and there is no `default` handler
+   * @example
+   * res.format({
+   *   json: () => res.json(user),
+   *   html: () => res.send(`<h1>${user.name}</h1>`)
+   * });
+   */
+  format(this: Response, handlers: FormatHandlers): any {
+    const req = this.req as Request;
+    const keys = Object.keys(handlers).filter(key => key !== 'default');
+    const key = keys.length > 0 ? req.accepts(keys) : false;
+
+    appendVary(this, 'Accept');
+
+    if (key) {
+      this.setHeader('Content-Type', normalizeType(key) || key);
+      return handlers[key]();
+    }
+
+    if (handlers.default) {
+      return handlers.default();
+    }
+
+    throw new NotAcceptableError(undefined, {
+      details: { acceptable: keys.map(type => normalizeType(type) || type) }
+    });
+  }
+};
@@ -0,0 +1,513 @@
+import { randomBytes } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ServerResponse } from 'http';
+import type { Request } from './Application';
+import { whenClosed } from './dispatch';
+import { BadRequestError, ForbiddenError, NotFoundError, RangeNotSatisfiableError } from './errors';
+import { isFresh } from './etag';
+import { lookupMimeType } from './mime';
+import { appendVary, preferredEncodings } from './negotiation';
+
+/**
+ * Options for `res.sendFile()` and `res.download()`
+ */
+export interface SendFileOptions {
+  /** Directory that relative paths are resolved against; paths may not leave it */
+  root?: string;
+  /** Extra headers to set on the response */
+  headers?: Record<string, string | number | string[]>;
+  /** Cache-Control max-age in seconds */
+  maxAge?: number;
+  /**
+   * Mark the file as `immutable` in Cache-Control, so browsers don't revalidate
+   * it before max-age runs out. Only for files whose name changes with their content.
+   */
+  immutable?: boolean;
+  /** How to treat files and directories starting with a dot (defaults to 'ignore', i.e. 404) */
+  dotfiles?: 'allow' | 'deny' | 'ignore';
+  /** Send an ETag generated from the file's size and modification time (default true) */
+  etag?: boolean;
+  /** Send a Last-Modified header (default true) */
+  lastModified?: boolean;
+  /** Answer Range requests (default true) */
+  acceptRanges?: boolean;
+}
+
+/**
+ * A file read into memory, with its headers worked out once, see `FileCache`
+ */
+export interface LoadedFile {
+  body: Buffer;
+  etag: string;
+  lastModified: string;
+  type: string;
+}
+
+/**
+ * Options for sending a file that has already been found, see `sendFileResponse`
+ */
+export type FileResponseOptions = Pick<SendFileOptions, 'headers' | 'maxAge' | 'immutable' | 'etag' | 'lastModified' | 'acceptRanges'> & {
+  /** Called once the file's headers are set, to change or add to them */
+  setHeaders?: (res: ServerResponse, filePath: string, stats: fs.Stats) => void;
+  /** The file's contents, when they are already in memory; sent instead of reading the file */
+  loaded?: LoadedFile;
+};
+
+/**
+ * An inclusive byte range of a file
+ */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * More ranges than this in one request are ignored and the whole file is sent,
+ * since answering them costs more than sending the file
+ */
+const MAX_RANGES = 50;
+
+/**
+ * Resolve the path of a file to send.
+ * With a `root`, the path is taken relative to it and may not contain `..`
+ * segments; without one it must be absolute.
+ * @param filePath The requested path
+ * @param root Optional root directory
+ * @returns The absolute path of the file
+ */
+export function resolveFilePath(filePath: string, root?: string): string {
+  if (filePath.includes('\0')) {
+    throw new BadRequestError('Invalid file path');
+  }
+
+  if (!root) {
+    if (!path.isAbsolute(filePath)) {
+      throw new TypeError('Path must be absolute or a root must be specified');
+    }
+    return path.normalize(filePath);
+  }
+
+  // Checked before joining, since path.join would silently resolve the `..`
+  if (filePath.split(/[\\/]/).includes('..')) {
+    throw new ForbiddenError('Path traversal is not allowed');
+  }
+
+  return path.join(path.resolve(root), filePath);
+}
+
+/**
+ * Check whether any segment of a path starts with a dot
+ */
+export function hasDotSegment(filePath: string): boolean {
+  return filePath.split(path.sep).some(segment => segment.length > 1 && segment.startsWith('.'));
+}
+
+/**
+ * Set the Content-Type, Content-Length and caching headers for a file
+ * @param res The response
+ * @param filePath Path of the file, used to pick the Content-Type
+ * @param stats The file's stats
+ * @param options Caching and extra headers
+ */
+export function setFileHeaders(
+  res: ServerResponse,
+  filePath: string,
+  stats: fs.Stats,
+  options: Pick<SendFileOptions, 'maxAge' | 'immutable' | 'headers'> = {}
+): void {
+  // A Content-Type chosen by the caller (e.g. res.attachment) wins
+  if (!res.getHeader('Content-Type')) {
+    res.setHeader('Content-Type', lookupMimeType(filePath) || 'application/octet-stream');
+  }
+  res.setHeader('Content-Length', stats.size);
+
+  if (options.maxAge) {
+    res.setHeader('Cache-Control', `public, max-age=${options.maxAge}${options.immutable ? ', immutable' : ''}`);
+  }
+
+  if (options.headers) {
+    Object.entries(options.headers).forEach(([name, value]) => {
+      res.setHeader(name, value);
+    });
+  }
+}
+
+/**
+ * File extensions of precompressed variants, by content coding
+ */
+const PRECOMPRESSED_EXTENSIONS: Record<string, string> = {
+  br: '.br',
+  gzip: '.gz'
+};
+
+/**
+ * Find the best precompressed variant of a file that the client accepts,
+ * e.g. `app.js.br` for `app.js`. Adds Accept-Encoding to the Vary header,
+ * since the response depends on it either way.
+ * @param req The request
+ * @param res The response
+ * @param filePath Absolute path of the uncompressed file
+ * @param encodings Content codings to look for, most preferred first
+ * @returns The variant's path, stats and encoding, or undefined to send the original
+ */
+export async function findPrecompressed(
+  req: Request,
+  res: ServerResponse,
+  filePath: string,
+  encodings: string[] = ['br', 'gzip']
+): Promise<{ path: string; stats: fs.Stats; encoding: string } | undefined> {
+  appendVary(res, 'Accept-Encoding');
+
+  const header = req.headers['accept-encoding'];
+  const accepted = preferredEncodings(Array.isArray(header) ? header.join(',') : header, [...encodings, 'identity'], true);
+
+  for (const encoding of accepted) {
+    // Anything below identity isn't worth looking for
+    if (encoding === 'identity') {
+      return undefined;
+    }
+    const extension = PRECOMPRESSED_EXTENSIONS[encoding];
+    if (!extension) {
+      continue;
+    }
+
+    const variantPath = filePath + extension;
+    const stats = await fs.promises.stat(variantPath).catch(() => undefined);
+    if (stats && stats.isFile()) {
+      return { path: variantPath, stats, encoding };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Generate a weak ETag for a file from its size and modification time
+ */
+export function statTag(stats: fs.Stats): string {
+  return `W/"${stats.size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}"`;
+}
+
+/**
+ * Parse a Range header (RFC 9110). Overlapping and adjacent ranges are merged.
+ * @param size The size of the file
+ * @param header The Range header
+ * @returns The ranges to send, an empty list if none of them can be satisfied,
+ * or undefined if the header is malformed or asks for too many ranges, in
+ * which case it should be ignored
+ */
+export function parseRange(size: number, header: string): ByteRange[] | undefined {
+  const match = /^\s*bytes\s*=(.*)$/i.exec(header);
+  if (!match) {
+    return undefined;
+  }
+
+  const ranges: ByteRange[] = [];
+
+  for (const spec of match[1].split(',')) {
+    const parts = /^\s*(\d*)\s*-\s*(\d*)\s*$/.exec(spec);
+    if (!parts || (parts[1] === '' && parts[2] === '')) {
+      return undefined;
+    }
+
+    let start: number;
+    let end: number;
+
+    if (parts[1] === '') {
+      // Suffix range: the last N bytes
+      start = Math.max(0, size - Number(parts[2]));
+      end = size - 1;
+    } else {
+      start = Number(parts[1]);
+      end = parts[2] === '' ? size - 1 : Math.min(Number(parts[2]), size - 1);
+      if (parts[2] !== '' && Number(parts[2]) < start) {
+        return undefined;
+      }
+    }
+
+    // Ranges starting past the end (or empty suffixes) can't be satisfied
+    if (start < size && start <= end) {
+      ranges.push({ start, end });
+    }
+  }
+
+  ranges.sort((a, b) => a.start - b.start);
+  const merged: ByteRange[] = [];
+  ranges.forEach((range) => {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end + 1) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  });
+
+  return merged.length > MAX_RANGES ? undefined : merged;
+}
+
+/**
+ * Check an If-Range header: the range may only be sent if the file is
+ * still the one the client has part of
+ */
+function isRangeFresh(ifRange: string | undefined, etag?: string, lastModified?: string): boolean {
+  if (!ifRange) {
+    return true;
+  }
+
+  // An entity tag
+  if (ifRange.includes('"')) {
+    return !!etag && ifRange.trim() === etag;
+  }
+
+  // An HTTP date
+  const since = Date.parse(ifRange);
+  return !!lastModified && !isNaN(since) && Date.parse(lastModified) <= since;
+}
+
+/**
+ * Stream a file (or a range of it) to the response, or just end it for HEAD
+ * requests. Headers must have been set already (see setFileHeaders).
+ * @param file Path of the file, or its contents when they are in memory
+ * @returns A promise that resolves once the file has been read or the client
+ * went away, and rejects if the file can't be read
+ */
+export function streamFile(req: Request, res: ServerResponse, file: string | Buffer, range?: ByteRange): Promise<void> {
+  // HEAD requests only need the headers
+  if (req.method === 'HEAD') {
+    res.end();
+    return Promise.resolve();
+  }
+
+  return pipeFile(res, file, range, true);
+}
+
+/**
+ * Pipe a file or part of it to the response
+ * @param file Path of the file, or its contents
+ * @param end Whether to end the response after the file
+ */
+function pipeFile(res: ServerResponse, file: string | Buffer, range: ByteRange | undefined, end: boolean): Promise<void> {
+  if (Buffer.isBuffer(file)) {
+    const chunk = range ? file.subarray(range.start, range.end + 1) : file;
+    if (end) {
+      res.end(chunk);
+    } else {
+      res.write(chunk);
+    }
+    return Promise.resolve();
+  }
+
+  const filePath = file;
+  return new Promise<void>((resolve, reject) => {
+    const fileStream = fs.createReadStream(filePath, range ? { start: range.start, end: range.end } : undefined);
+
+    fileStream.on('error', (err) => {
+      fileStream.destroy();
+      reject(err);
+    });
+    fileStream.on('end', () => resolve());
+
+    // Stop reading when the client goes away
+    whenClosed(res).then(() => {
+      fileStream.destroy();
+      resolve();
+    });
+
+    fileStream.pipe(res, { end });
+  });
+}
+
+/**
+ * Stream several ranges of a file as a multipart/byteranges body
+ * @param parts The ranges, each with the headers of its part
+ * @param boundary The multipart boundary
+ */
+async function streamRanges(
+  req: Request,
+  res: ServerResponse,
+  file: string | Buffer,
+  parts: Array<{ range: ByteRange; head: string }>,
+  boundary: string
+): Promise<void> {
+  if (req.method === 'HEAD') {
+    res.end();
+    return;
+  }
+
+  for (const part of parts) {
+    if (res.destroyed) {
+      return;
+    }
+    res.write(part.head);
+    await pipeFile(res, file, part.range, false);
+    res.write('\r\n');
+  }
+
+  res.end(`--${boundary}--\r\n`);
+}
+
+/**
+ * Send a file that has been found, with validators and Range support:
+ * sets ETag, Last-Modified and Accept-Ranges, answers conditional requests
+ * with 304 and Range requests with 206 (one range) or a multipart/byteranges
+ * body (several ranges).
+ * @param req The request
+ * @param res The response
+ * @param filePath Absolute path of the file
+ * @param stats The file's stats
+ * @param options Caching, validator and range options
+ * @throws RangeNotSatisfiableError (416) if no requested range is within the file
+ */
+export async function sendFileResponse(
+  req: Request,
+  res: ServerResponse,
+  filePath: string,
+  stats: fs.Stats,
+  options: FileResponseOptions = {}
+): Promise<void> {
+  const { loaded } = options;
+  const etag = options.etag !== false ? (loaded ? loaded.etag : statTag(stats)) : undefined;
+  const lastModified = options.lastModified !== false ? (loaded ? loaded.lastModified : stats.mtime.toUTCString()) : undefined;
+  const acceptRanges = options.acceptRanges !== false;
+
+  if (etag) {
+    res.setHeader('ETag', etag);
+  }
+  if (lastModified) {
+    res.setHeader('Last-Modified', lastModified);
+  }
+  if (acceptRanges) {
+    res.setHeader('Accept-Ranges', 'bytes');
+  }
+
+  // The client's copy is still current; as with req.fresh, only for GET and
+  // HEAD requests whose status isn't already an error, e.g. a custom 404 page
+  const status = res.statusCode;
+  const conditional = (req.method === 'GET' || req.method === 'HEAD') && ((status >= 200 && status < 300) || status === 304);
+  if (conditional && isFresh(req.headers, { etag, 'last-modified': lastModified })) {
+    setFileHeaders(res, filePath, stats, options);
+    if (options.setHeaders) {
+      options.setHeaders(res, filePath, stats);
+    }
+    res.removeHeader('Content-Type');
+    res.removeHeader('Content-Length');
+    res.statusCode = 304;
+    res.end();
+    return;
+  }
+
+  const rangeHeader = req.headers.range;
+  const ifRange = req.headers['if-range'] as string | undefined;
+  const ranges = acceptRanges && rangeHeader && isRangeFresh(ifRange, etag, lastModified)
+    ? parseRange(stats.size, rangeHeader)
+    : undefined;
+
+  if (ranges && ranges.length === 0) {
+    throw new RangeNotSatisfiableError(undefined, { headers: { 'Content-Range': `bytes */${stats.size}` } });
+  }
+
+  if (loaded && !res.getHeader('Content-Type')) {
+    res.setHeader('Content-Type', loaded.type);
+  }
+  setFileHeaders(res, filePath, stats, options);
+  if (options.setHeaders) {
+    options.setHeaders(res, filePath, stats);
+  }
+
+  const file = loaded ? loaded.body : filePath;
+
+  if (!ranges) {
+    return streamFile(req, res, file);
+  }
+
+  res.statusCode = 206;
+
+  if (ranges.length === 1) {
+    const [range] = ranges;
+    res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${stats.size}`);
+    res.setHeader('Content-Length', range.end - range.start + 1);
+    return streamFile(req, res, file, range);
+  }
+
+  // Several ranges go in a multipart/byteranges body, each with its own headers
+  const boundary = randomBytes(12).toString('hex');
+  const type = res.getHeader('Content-Type');
+  const parts = ranges.map(range => ({
+    range,
+    head: `--${boundary}\r\nContent-Type: ${type}\r\nContent-Range: bytes ${range.start}-${range.end}/${stats.size}\r\n\r\n`
+  }));
+  const length = parts.reduce((total, part) => total + Buffer.byteLength(part.head) + part.range.end - part.range.start + 1 + 2, 0)
+    + Buffer.byteLength(`--${boundary}--\r\n`);
+
+  res.setHeader('Content-Type', `multipart/byteranges; boundary=${boundary}`);
+  res.setHeader('Content-Length', length);
+  return streamRanges(req, res, file, parts, boundary);
+}
+
+/**
+ * Send a file as the response.
+ * Missing files and directories are rejected with a NotFoundError, dotfiles
+ * according to `options.dotfiles`, and path traversal with a ForbiddenError.
+ * @param req The request
+ * @param res The response
+ * @param filePath Absolute path, or a path relative to `options.root`
+ * @param options Send options
+ */
+export async function sendFile(req: Request, res: ServerResponse, filePath: string, options: SendFileOptions = {}): Promise<void> {
+  const absolutePath = resolveFilePath(filePath, options.root);
+
+  // Only the part below the root counts when checking for dotfiles
+  const checkedPath = options.root ? path.relative(path.resolve(options.root), absolutePath) : absolutePath;
+  if (hasDotSegment(checkedPath)) {
+    const dotfiles = options.dotfiles || 'ignore';
+    if (dotfiles === 'deny') {
+      throw new ForbiddenError();
+    }
+    if (dotfiles === 'ignore') {
+      throw new NotFoundError();
+    }
+  }
+
+  let stats: fs.Stats;
+  try {
+    stats = await fs.promises.stat(absolutePath);
+  } catch (err: any) {
+    if (err.code === 'ENOENT' || err.code === 'ENOTDIR' || err.code === 'ENAMETOOLONG') {
+      throw new NotFoundError(undefined, { cause: err });
+    }
+    throw err;
+  }
+
+  if (!stats.isFile()) {
+    throw new NotFoundError();
+  }
+
+  return sendFileResponse(req, res, absolutePath, stats, options);
+}
+
+/**
+ * Build a Content-Disposition header value (RFC 6266).
+ * Non-ASCII filenames get an ASCII fallback in `filename` and the
+ * UTF-8 encoded name in `filename*`.
+ * @param filename The file name shown to the user, if any
+ * @param type The disposition type
+ */
+export function contentDisposition(filename?: string, type: 'attachment' | 'inline' = 'attachment'): string {
+  if (!filename) {
+    return type;
+  }
+
+  const name = path.basename(filename);
+  const quote = (value: string) => `"${value.replace(/[\\"]/g, '\\$&')}"`;
+
+  // Plain ASCII names can be sent as is
+  if (/^[\x20-\x7e]*$/.test(name)) {
+    return `${type}; filename=${quote(name)}`;
+  }
+
+  const fallback = name.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^\x20-\x7e]/g, '?');
+  const encoded = encodeURIComponent(name).replace(/['()*]/g, char => '%' + char.charCodeAt(0).toString(16).toUpperCase());
+
+  return `${type}; filename=${quote(fallback)}; filename*=UTF-8''${encoded}`;
+}
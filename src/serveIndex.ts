@@ -0,0 +1,260 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as url from 'url';
+import type { Middleware, Request, Response, NextFunction } from './Application';
+import { BadRequestError, ForbiddenError } from './errors';
+import { escapeHtml } from './errorPage';
+import { lookupMimeType } from './mime';
+import { hasDotSegment, resolveFilePath } from './send';
+
+/**
+ * A file or directory in a listing
+ */
+export interface DirectoryEntry {
+  name: string;
+  type: 'file' | 'directory';
+  /** Size in bytes; 0 for directories */
+  size: number;
+  mtime: Date;
+  /** MIME type guessed from the extension, for files */
+  mimeType?: string;
+}
+
+/**
+ * Keys a listing can be sorted by
+ */
+export type DirectorySortKey = 'name' | 'size' | 'mtime';
+
+/**
+ * Options for `serveIndex()`
+ */
+export interface ServeIndexOptions {
+  /**
+   * How to treat files and directories starting with a dot, as in `serveStatic`:
+   * they are listed with 'allow', hidden with 'ignore' (the default) and 'deny',
+   * and listing a dot directory is a 404 with 'ignore' and a 403 with 'deny'
+   */
+  dotfiles?: 'allow' | 'deny' | 'ignore';
+  /** Only list entries for which this returns true */
+  filter?: (entry: DirectoryEntry) => boolean;
+  /**
+   * Default order: a key (directories first, then ascending) or a compare
+   * function. Clients pick another key with `?sort=size&order=desc`.
+   */
+  sort?: DirectorySortKey | ((a: DirectoryEntry, b: DirectoryEntry) => number);
+  /** Show an icon for each entry in the HTML listing (default true) */
+  icons?: boolean;
+}
+
+const SORT_KEYS: DirectorySortKey[] = ['name', 'size', 'mtime'];
+
+/**
+ * Icons for the HTML listing, by MIME type prefix; the first match wins
+ */
+const ICONS: Array<[string, string]> = [
+  ['image/', '🖼️'],
+  ['video/', '🎞️'],
+  ['audio/', '🎵'],
+  ['font/', '🔤'],
+  ['application/pdf', '📕'],
+  ['application/zip', '📦'],
+  ['application/gzip', '📦'],
+  ['application/x-tar', '📦'],
+  ['application/json', '🧾'],
+  ['text/', '📄']
+];
+
+/**
+ * Pick the icon of an entry
+ */
+function iconFor(entry: DirectoryEntry): string {
+  if (entry.type === 'directory') {
+    return '📁';
+  }
+  const match = ICONS.find(([prefix]) => (entry.mimeType || '').startsWith(prefix));
+  return match ? match[1] : '📄';
+}
+
+/**
+ * Format a size for people, e.g. `1.5 kB`
+ */
+function formatSize(size: number): string {
+  const units = ['B', 'kB', 'MB', 'GB', 'TB'];
+  let value = size;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return unit === 0 ? `${value} B` : `${value.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * Build the compare function for a sort key; directories always come first
+ */
+function compareBy(key: DirectorySortKey, descending: boolean): (a: DirectoryEntry, b: DirectoryEntry) => number {
+  return (a, b) => {
+    if (a.type !== b.type) {
+      return a.type === 'directory' ? -1 : 1;
+    }
+    const order = key === 'name'
+      ? a.name.localeCompare(b.name)
+      : key === 'size' ? a.size - b.size : a.mtime.getTime() - b.mtime.getTime();
+    // Ties are broken by name, so the order is stable across requests
+    const result = order || a.name.localeCompare(b.name);
+    return descending ? -result : result;
+  };
+}
+
+/**
+ * Read the entries of a directory. Entries that can't be stat'ed, such as
+ * broken symlinks, are left out.
+ */
+async function readEntries(dir: string): Promise<DirectoryEntry[]> {
+  const names = await fs.promises.readdir(dir);
+  const entries = await Promise.all(names.map(async (name): Promise<DirectoryEntry | undefined> => {
+    const stats = await fs.promises.stat(path.join(dir, name)).catch(() => undefined);
+    if (!stats) {
+      return undefined;
+    }
+    const isDirectory = stats.isDirectory();
+    return {
+      name,
+      type: isDirectory ? 'directory' : 'file',
+      size: isDirectory ? 0 : stats.size,
+      mtime: stats.mtime,
+      mimeType: isDirectory ? undefined : lookupMimeType(name)
+    };
+  }));
+  return entries.filter((entry): entry is DirectoryEntry => !!entry);
+}
+
+/**
+ * Render the HTML listing
+ */
+function renderListing(
+  pathname: string,
+  entries: DirectoryEntry[],
+  sort: { key?: DirectorySortKey; descending: boolean },
+  icons: boolean
+): string {
+  const base = pathname.endsWith('/') ? pathname : `${pathname}/`;
+  const href = (entry: DirectoryEntry) =>
+    escapeHtml(base + encodeURIComponent(entry.name) + (entry.type === 'directory' ? '/' : ''));
+
+  // Clicking the current column flips the order
+  const heading = (key: DirectorySortKey, label: string) => {
+    const descending = sort.key === key && !sort.descending;
+    const arrow = sort.key === key ? (sort.descending ? ' ↓' : ' ↑') : '';
+    return `<th><a href="?sort=${key}&amp;order=${descending ? 'desc' : 'asc'}">${label}</a>${arrow}</th>`;
+  };
+
+  const rows = entries.map((entry) => {
+    const icon = icons ? `<span class="icon">${iconFor(entry)}</span>` : '';
+    const name = escapeHtml(entry.name) + (entry.type === 'directory' ? '/' : '');
+    const size = entry.type === 'directory' ? '-' : formatSize(entry.size);
+    return `<tr><td>${icon}<a href="${href(entry)}">${name}</a></td><td class="size">${size}</td><td>${entry.mtime.toISOString().slice(0, 16).replace('T', ' ')}</td></tr>`;
+  });
+
+  if (base !== '/') {
+    const parent = escapeHtml(base.replace(/[^/]+\/$/, ''));
+    rows.unshift(`<tr><td>${icons ? '<span class="icon">⬆️</span>' : ''}<a href="${parent}">../</a></td><td></td><td></td></tr>`);
+  }
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Index of ${escapeHtml(base)}</title>
+  <style>
+    body { font-family: -apple-system, Arial, sans-serif; margin: 20px 30px; color: #222; }
+    h1 { font-size: 20px; font-weight: normal; }
+    table { border-collapse: collapse; font-size: 14px; }
+    th, td { text-align: left; padding: 4px 24px 4px 0; }
+    th a { color: #555; }
+    td.size { text-align: right; font-family: monospace; }
+    .icon { display: inline-block; width: 24px; }
+    a { text-decoration: none; color: #0b57d0; }
+  </style>
+</head>
+<body>
+  <h1>Index of ${escapeHtml(base)}</h1>
+  <table>
+    <thead><tr>${heading('name', 'Name')}${heading('size', 'Size')}${heading('mtime', 'Modified')}</tr></thead>
+    <tbody>${rows.join('')}</tbody>
+  </table>
+</body>
+</html>`;
+}
+
+/**
+ * Directory listing middleware. Requests for a directory under `root` get
+ * its contents as an HTML table, JSON or plain text, depending on the Accept
+ * header. Mount it after `serveStatic`, so directories with an index file
+ * are served by that instead. Paths that don't exist or aren't directories
+ * are passed on.
+ * @param root Directory to list
+ * @param options Hidden files, filtering, sorting and icons
+ */
+export function serveIndex(root: string, options: ServeIndexOptions = {}): Middleware {
+  const rootPath = path.resolve(root);
+  const dotfiles = options.dotfiles || 'ignore';
+  const icons = options.icons !== false;
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      return next();
+    }
+
+    // Not the URL class, which would resolve dot segments before they can be rejected
+    const pathname = url.parse(req.url || '/').pathname || '/';
+
+    try {
+      let decoded: string;
+      try {
+        decoded = decodeURIComponent(pathname);
+      } catch (err) {
+        throw new BadRequestError('Invalid path', { cause: err });
+      }
+
+      // Same traversal checks as res.sendFile()
+      const dir = resolveFilePath(decoded.replace(/^[\\/]+/, ''), rootPath);
+      if (hasDotSegment(path.relative(rootPath, dir)) && dotfiles !== 'allow') {
+        if (dotfiles === 'deny') {
+          throw new ForbiddenError();
+        }
+        return next();
+      }
+
+      const stats = await fs.promises.stat(dir).catch(() => undefined);
+      if (!stats || !stats.isDirectory()) {
+        return next();
+      }
+
+      let entries = await readEntries(dir);
+      if (dotfiles !== 'allow') {
+        entries = entries.filter(entry => !entry.name.startsWith('.'));
+      }
+      if (options.filter) {
+        entries = entries.filter(options.filter);
+      }
+
+      // A valid ?sort= wins over the configured order
+      const requested = SORT_KEYS.find(key => key === req.query.sort);
+      const descending = req.query.order === 'desc';
+      const sort = {
+        key: requested || (typeof options.sort === 'function' ? undefined : options.sort || 'name'),
+        descending
+      };
+      entries.sort(sort.key ? compareBy(sort.key, sort.descending) : options.sort as (a: DirectoryEntry, b: DirectoryEntry) => number);
+
+      res.format({
+        html: () => res.send(renderListing(pathname, entries, sort, icons)),
+        json: () => res.json(entries.map(entry => ({ ...entry, mtime: entry.mtime.toISOString() }))),
+        text: () => res.send(entries.map(entry => `${entry.name}${entry.type === 'directory' ? '/' : ''}\n`).join(''))
+      });
+    } catch (err) {
+      next(err);
+    }
+  };
+}
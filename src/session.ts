@@ -0,0 +1,503 @@
+import { randomBytes } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Middleware, Request, Response, NextFunction } from './Application';
+import { appendSetCookie, parseCookies, serializeCookie, signCookie, unsign, CookieOptions } from './cookies';
+
+/**
+ * Values stored in a session
+ */
+export type SessionData = Record<string, any>;
+
+/**
+ * Backend that persists sessions. Implement it to keep sessions in your own
+ * database; `ttl` is the remaining lifetime in milliseconds.
+ */
+export interface SessionStore {
+  /** Load a session, resolving to undefined if it doesn't exist or has expired */
+  get(id: string): Promise<SessionData | undefined>;
+  /** Create or replace a session */
+  set(id: string, data: SessionData, ttl: number): Promise<void>;
+  /** Remove a session */
+  destroy(id: string): Promise<void>;
+  /** Extend the lifetime of an unchanged session; falls back to `set` when missing */
+  touch?(id: string, data: SessionData, ttl: number): Promise<void>;
+}
+
+/**
+ * Options for the session middleware
+ */
+export interface SessionOptions {
+  /** Secret used to sign the session cookie; pass a list to rotate secrets */
+  secret: string | string[];
+  /** Where sessions are kept, defaults to a MemoryStore */
+  store?: SessionStore;
+  /** Name of the session cookie, defaults to `sid` */
+  name?: string;
+  /** Attributes of the session cookie; `maxAge` (ms) is also the session lifetime, default 1 day */
+  cookie?: Omit<CookieOptions, 'signed' | 'expires'>;
+  /** Reset the expiry on every response instead of only when the session changes */
+  rolling?: boolean;
+  /** Save new sessions even when nothing was stored in them */
+  saveUninitialized?: boolean;
+  /** Custom session id generator */
+  genid?: () => string;
+}
+
+/**
+ * Default session lifetime: one day
+ */
+const DEFAULT_MAX_AGE = 24 * 60 * 60 * 1000;
+
+/**
+ * Internal state of a session, kept out of the session's own properties
+ * so that only user data is enumerable and stored
+ */
+interface SessionState {
+  id: string;
+  store: SessionStore;
+  genid: () => string;
+  /** Lifetime in milliseconds */
+  maxAge: number;
+  isNew: boolean;
+  /** JSON of the data when it was loaded or last saved */
+  snapshot: string;
+  regenerated: boolean;
+  destroyed: boolean;
+  touched: boolean;
+}
+
+const sessionStates = new WeakMap<Session, SessionState>();
+
+/**
+ * Generate a random, URL-safe session id
+ */
+function generateSessionId(): string {
+  return randomBytes(24).toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Get the internal state of a session
+ */
+function stateOf(session: Session): SessionState {
+  return sessionStates.get(session)!;
+}
+
+/**
+ * The data of a session, without its methods
+ */
+function dataOf(session: Session): SessionData {
+  return { ...session };
+}
+
+/**
+ * Remove all data from a session
+ */
+function clearData(session: Session): void {
+  Object.keys(session).forEach((key) => {
+    delete session[key];
+  });
+}
+
+/**
+ * A session, available as `req.session`.
+ * Store values by setting properties on it; they are saved when the
+ * response is sent, but only if they changed.
+ */
+export class Session {
+  [key: string]: any;
+
+  constructor(state: SessionState, data: SessionData = {}) {
+    sessionStates.set(this, state);
+    Object.assign(this, data);
+  }
+
+  /**
+   * The session id
+   */
+  get id(): string {
+    return stateOf(this).id;
+  }
+
+  /**
+   * Whether the session was created by this request
+   */
+  get isNew(): boolean {
+    return stateOf(this).isNew;
+  }
+
+  /**
+   * Replace the session with a new, empty one under a new id.
+   * Call it after logging a user in, so an id planted by an attacker
+   * before login is worthless (session fixation).
+   */
+  public async regenerate(): Promise<void> {
+    const state = stateOf(this);
+    await state.store.destroy(state.id);
+
+    clearData(this);
+    state.id = state.genid();
+    state.isNew = true;
+    state.regenerated = true;
+    state.destroyed = false;
+    state.snapshot = JSON.stringify({});
+  }
+
+  /**
+   * Remove the session from the store and clear its cookie
+   */
+  public async destroy(): Promise<void> {
+    const state = stateOf(this);
+    await state.store.destroy(state.id);
+
+    clearData(this);
+    state.destroyed = true;
+  }
+
+  /**
+   * Extend the session's lifetime with this response, even if it didn't change
+   */
+  public touch(): void {
+    stateOf(this).touched = true;
+  }
+
+  /**
+   * Whether the session data changed since it was loaded or last saved
+   */
+  public isModified(): boolean {
+    return JSON.stringify(dataOf(this)) !== stateOf(this).snapshot;
+  }
+
+  /**
+   * Save the session now instead of when the response is sent
+   */
+  public async save(): Promise<void> {
+    const state = stateOf(this);
+    const data = dataOf(this);
+    await state.store.set(state.id, data, state.maxAge);
+    state.snapshot = JSON.stringify(data);
+  }
+
+  /**
+   * Only the session data is serialized
+   */
+  public toJSON(): SessionData {
+    return dataOf(this);
+  }
+}
+
+/**
+ * Session store that keeps sessions in memory. Expired sessions are
+ * removed periodically. Sessions are lost on restart and not shared
+ * between processes, so use it for development and single instances.
+ */
+export class MemoryStore implements SessionStore {
+  private sessions = new Map<string, { data: string; expires: number }>();
+  private timer?: NodeJS.Timeout;
+
+  /**
+   * @param options.checkPeriod How often expired sessions are swept, in milliseconds (default 1 minute)
+   */
+  constructor(options: { checkPeriod?: number } = {}) {
+    const checkPeriod = options.checkPeriod ?? 60 * 1000;
+    if (checkPeriod > 0) {
+      this.timer = setInterval(() => this.sweep(), checkPeriod);
+      // The sweep timer shouldn't keep the process alive
+      this.timer.unref();
+    }
+  }
+
+  /**
+   * Number of sessions currently stored, including expired ones not swept yet
+   */
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  public async get(id: string): Promise<SessionData | undefined> {
+    const entry = this.sessions.get(id);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expires <= Date.now()) {
+      this.sessions.delete(id);
+      return undefined;
+    }
+    // Stored as JSON so callers can't change stored sessions by reference
+    return JSON.parse(entry.data);
+  }
+
+  public async set(id: string, data: SessionData, ttl: number): Promise<void> {
+    this.sessions.set(id, { data: JSON.stringify(data), expires: Date.now() + ttl });
+  }
+
+  public async destroy(id: string): Promise<void> {
+    this.sessions.delete(id);
+  }
+
+  public async touch(id: string, data: SessionData, ttl: number): Promise<void> {
+    const entry = this.sessions.get(id);
+    if (entry) {
+      entry.expires = Date.now() + ttl;
+    } else {
+      await this.set(id, data, ttl);
+    }
+  }
+
+  /**
+   * Remove expired sessions
+   */
+  public sweep(): void {
+    const now = Date.now();
+    this.sessions.forEach((entry, id) => {
+      if (entry.expires <= now) {
+        this.sessions.delete(id);
+      }
+    });
+  }
+
+  /**
+   * Stop the sweep timer
+   */
+  public close(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+}
+
+/**
+ * Session store that keeps each session in a JSON file in a directory.
+ * Survives restarts and can be shared by processes on the same machine.
+ */
+export class FileStore implements SessionStore {
+  private dir: string;
+
+  /**
+   * @param options.dir Directory for the session files, created when needed
+   */
+  constructor(options: { dir: string }) {
+    this.dir = path.resolve(options.dir);
+  }
+
+  public async get(id: string): Promise<SessionData | undefined> {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(this.fileOf(id), 'utf8');
+    } catch (err: any) {
+      if (err.code === 'ENOENT') {
+        return undefined;
+      }
+      throw err;
+    }
+
+    let entry: { data: SessionData; expires: number };
+    try {
+      entry = JSON.parse(content);
+    } catch {
+      // A corrupt file is treated like a missing session
+      return undefined;
+    }
+
+    if (entry.expires <= Date.now()) {
+      await this.destroy(id);
+      return undefined;
+    }
+
+    return entry.data;
+  }
+
+  public async set(id: string, data: SessionData, ttl: number): Promise<void> {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+
+    // Write to a temporary file first, so readers never see a partial session
+    const file = this.fileOf(id);
+    const temp = `${file}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+    await fs.promises.writeFile(temp, JSON.stringify({ data, expires: Date.now() + ttl }));
+    await fs.promises.rename(temp, file);
+  }
+
+  public async destroy(id: string): Promise<void> {
+    try {
+      await fs.promises.unlink(this.fileOf(id));
+    } catch (err: any) {
+      if (err.code !== 'ENOENT') {
+        throw err;
+      }
+    }
+  }
+
+  public async touch(id: string, data: SessionData, ttl: number): Promise<void> {
+    await this.set(id, data, ttl);
+  }
+
+  /**
+   * Remove the files of expired sessions
+   * @returns The number of sessions removed
+   */
+  public async sweep(): Promise<number> {
+    let files: string[];
+    try {
+      files = await fs.promises.readdir(this.dir);
+    } catch (err: any) {
+      if (err.code === 'ENOENT') {
+        return 0;
+      }
+      throw err;
+    }
+
+    let removed = 0;
+    for (const file of files) {
+      if (!file.endsWith('.json')) continue;
+
+      // get() removes the file of an expired session
+      const id = file.slice(0, -'.json'.length);
+      if (/^[\w-]+$/.test(id) && !(await this.get(id))) {
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Path of a session's file. Ids are checked so they can't point outside the directory.
+   */
+  private fileOf(id: string): string {
+    if (!/^[\w-]+$/.test(id)) {
+      throw new Error('Invalid session id');
+    }
+    return path.join(this.dir, `${id}.json`);
+  }
+}
+
+/**
+ * Session middleware. Loads the session named by a signed cookie into
+ * `req.session`, and saves it when the response is sent.
+ *
+ * New sessions are only stored (and get a cookie) once something is put
+ * in them, and existing sessions are only written back when they changed.
+ * With `rolling`, every response extends the session's lifetime.
+ *
+ * @param options Session options; `secret` is required
+ */
+export function session(options: SessionOptions): Middleware {
+  const secrets = Array.isArray(options.secret) ? options.secret : [options.secret];
+  if (secrets.length === 0 || secrets.some(secret => !secret)) {
+    throw new TypeError('session() requires a secret');
+  }
+
+  const store = options.store || new MemoryStore();
+  const name = options.name || 'sid';
+  const genid = options.genid || generateSessionId;
+  const { maxAge = DEFAULT_MAX_AGE, ...cookieAttributes } = options.cookie || {};
+  const cookieOptions: CookieOptions = { path: '/', httpOnly: true, ...cookieAttributes };
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    // Already loaded, e.g. by a session middleware on the application and a router
+    if (req.session) {
+      return next();
+    }
+
+    const cookie = parseCookies(req.headers.cookie)[name];
+    const id = cookie && cookie.startsWith('s:') ? unsign(cookie.slice(2), secrets) : false;
+
+    let data: SessionData | undefined;
+    if (id) {
+      try {
+        data = await store.get(id);
+      } catch (err) {
+        return next(err);
+      }
+    }
+
+    const state: SessionState = {
+      id: data && id ? id : genid(),
+      store,
+      genid,
+      maxAge,
+      isNew: !data,
+      snapshot: JSON.stringify(data || {}),
+      regenerated: false,
+      destroyed: false,
+      touched: false
+    };
+    const sess = new Session(state, data);
+    req.session = sess;
+
+    // What happens to the session is decided once, when the response starts
+    let decision: { setCookie: boolean; clearCookie: boolean; save: boolean; touch: boolean } | undefined;
+    const decide = () => {
+      if (!decision) {
+        const modified = sess.isModified();
+        const stored = !state.isNew || modified || !!options.saveUninitialized;
+        const extend = !!options.rolling || state.touched;
+
+        decision = {
+          setCookie: !state.destroyed && stored && (state.isNew || state.regenerated || extend),
+          clearCookie: state.destroyed && !!cookie,
+          save: !state.destroyed && stored && (modified || state.isNew),
+          touch: !state.destroyed && !state.isNew && !modified && extend
+        };
+      }
+      return decision;
+    };
+
+    const setCookieHeader = () => {
+      const { setCookie, clearCookie } = decide();
+      if (res.headersSent) {
+        return;
+      }
+      if (setCookie) {
+        appendSetCookie(res, serializeCookie(name, signCookie(state.id, secrets[0]), {
+          ...cookieOptions,
+          maxAge,
+          expires: new Date(Date.now() + maxAge)
+        }));
+      } else if (clearCookie) {
+        appendSetCookie(res, serializeCookie(name, '', { ...cookieOptions, expires: new Date(0) }));
+      }
+    };
+
+    const persist = async () => {
+      const { save, touch } = decide();
+      if (save) {
+        await sess.save();
+      } else if (touch) {
+        await (store.touch ? store.touch(state.id, dataOf(sess), maxAge) : store.set(state.id, dataOf(sess), maxAge));
+      }
+    };
+
+    // The cookie has to be set before the headers go out, including
+    // when they are sent implicitly by the first write
+    const writeHead = res.writeHead;
+    res.writeHead = function(this: Response, ...args: any[]) {
+      setCookieHeader();
+      return (writeHead as (...args: any[]) => Response).apply(this, args);
+    } as typeof res.writeHead;
+
+    // Hold back the end of the response until the session is stored, so the
+    // next request from the client can't arrive before the session exists
+    const end = res.end;
+    let ending = false;
+    res.end = function(this: Response, ...args: any[]) {
+      if (ending) {
+        return this;
+      }
+      ending = true;
+      setCookieHeader();
+
+      persist()
+        .catch((err) => {
+          req.log.error('Failed to save session', { err });
+        })
+        .then(() => {
+          (end as (...args: any[]) => Response).apply(this, args);
+        });
+
+      return this;
+    } as typeof res.end;
+
+    return next();
+  };
+}
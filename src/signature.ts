@@ -0,0 +1,106 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { Middleware, Request, Response, NextFunction } from './Application';
+import { InternalServerError, UnauthorizedError } from './errors';
+
+/**
+ * Options for `middleware.verifySignature()`
+ */
+export interface VerifySignatureOptions {
+  /** The shared secret. Pass a list to rotate secrets: a signature made with any of them is accepted. */
+  secret: string | string[];
+  /** Header carrying the signature (default `x-signature`) */
+  header?: string;
+  /** HMAC algorithm (default `sha256`) */
+  algorithm?: 'sha256' | 'sha1';
+  /** Encoding of the signature (default `hex`) */
+  encoding?: 'hex' | 'base64';
+  /** Text in front of the signature, e.g. `sha256=` for GitHub */
+  prefix?: string;
+  /**
+   * Header carrying the Unix time (in seconds) the request was signed at.
+   * When set, requests without it or outside the tolerance are rejected,
+   * and the timestamp is part of the signed payload.
+   */
+  timestampHeader?: string;
+  /** How far the timestamp may be from the current time, in seconds (default 300) */
+  tolerance?: number;
+  /**
+   * Build the signed payload from the raw body and timestamp. Defaults to the
+   * body itself, or `<timestamp>.<body>` when a timestamp header is used.
+   */
+  payload?: (body: Buffer, timestamp?: string) => Buffer | string;
+}
+
+/**
+ * Read a single request header
+ */
+function headerValue(req: Request, name: string): string | undefined {
+  const value = req.headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Check a webhook signature: an HMAC of the raw request body, sent in a header.
+ * The raw body comes from `req.rawBody` (use a body parser with `rawBody: true`)
+ * or from `req.body` when it is a Buffer (`bodyParser.raw()`), so this must be
+ * mounted after the body parser. That parser has to be the first one to read
+ * the body: behind a global `json()`, a route-level parser is skipped. Requests
+ * with a missing, invalid or expired signature are rejected with a 401; without
+ * a raw body the request fails with a 500 describing the setup problem.
+ * @param options Secret, header and signature format
+ */
+export function verifySignature(options: VerifySignatureOptions): Middleware {
+  const secrets = Array.isArray(options.secret) ? options.secret : [options.secret];
+  const header = options.header || 'x-signature';
+  const algorithm = options.algorithm || 'sha256';
+  const encoding = options.encoding || 'hex';
+  const prefix = options.prefix || '';
+  const tolerance = options.tolerance !== undefined ? options.tolerance : 300;
+  const payload = options.payload || ((body: Buffer, timestamp?: string) =>
+    timestamp === undefined ? body : Buffer.concat([Buffer.from(`${timestamp}.`), body]));
+
+  if (secrets.length === 0 || secrets.some(secret => !secret)) {
+    throw new TypeError('verifySignature() requires a secret');
+  }
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const body = req.rawBody || (Buffer.isBuffer(req.body) ? req.body : undefined);
+    // A setup problem rather than a bad request, so it is reported as a server error
+    if (!body) {
+      return next(new InternalServerError(
+        'verifySignature() found no raw body. Mount it after a body parser with rawBody: true (or bodyParser.raw()), '
+        + 'and make sure that parser reads the body first: a route-level parser is skipped when a global one already read it'
+      ));
+    }
+
+    const signature = headerValue(req, header);
+    if (!signature || !signature.startsWith(prefix)) {
+      return next(new UnauthorizedError('Missing signature'));
+    }
+
+    let timestamp: string | undefined;
+    if (options.timestampHeader) {
+      timestamp = headerValue(req, options.timestampHeader);
+      const signedAt = Number(timestamp);
+      // Old requests could be replayed by anyone who captured them
+      if (!timestamp || !Number.isFinite(signedAt) || Math.abs(Date.now() / 1000 - signedAt) > tolerance) {
+        return next(new UnauthorizedError('Signature timestamp is missing or outside the tolerance'));
+      }
+    }
+
+    const actual = Buffer.from(signature.slice(prefix.length), encoding);
+    const signed = payload(body, timestamp);
+
+    const valid = secrets.some((secret) => {
+      const expected = createHmac(algorithm, secret).update(signed).digest();
+      // Constant time comparison, so the signature can't be guessed byte by byte
+      return expected.length === actual.length && timingSafeEqual(expected, actual);
+    });
+
+    if (!valid) {
+      return next(new UnauthorizedError('Invalid signature'));
+    }
+
+    next();
+  };
+}